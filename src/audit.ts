@@ -0,0 +1,264 @@
+import { AsyncLocalStorage } from "async_hooks"
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { truncateText } from "./outputs"
+
+/**
+ * How a tool invocation ended
+ *
+ * - `success`: the tool returned its result
+ * - `error`: the tool reported an error, or threw one
+ * - `cancelled`: the invocation was cancelled while running
+ */
+export type AuditOutcome = "success" | "error" | "cancelled"
+
+/**
+ * A recorded tool invocation
+ */
+export interface AuditEntry {
+	/** ISO date of the start of the invocation */
+	timestamp: string
+	/** Id of the extension session the invocation belongs to */
+	session: string
+	tool: string
+	/** The notebook given to the tool, or the active notebook it defaulted to */
+	notebook?: string
+	input: unknown
+	durationMs: number
+	outcome: AuditOutcome
+	/** Start of the result returned to the model */
+	result?: string
+	/** The error the tool reported, with its stack */
+	error?: string
+	/** Failures around the invocation that did not prevent it, e.g. a checkpoint that could not be taken */
+	warnings?: string[]
+}
+
+/**
+ * Options of the audit log
+ */
+export interface AuditOptions {
+	/** Whether entries are also appended to a JSONL file in the extension storage */
+	toFile: boolean
+	/** Size in bytes past which the file is rotated */
+	maxFileSize: number
+	/** Maximum length of the results recorded */
+	maxResultLength: number
+	/** Hides secrets from the recorded inputs and results */
+	redact: (text: string) => string
+}
+
+/**
+ * What the tool reported during an invocation, collected through the async context of the invocation
+ */
+interface InvocationReport {
+	result?: string
+	isError: boolean
+	error?: unknown
+	warnings: string[]
+}
+
+// Entries kept in memory for exporting the session
+const MAX_SESSION_ENTRIES = 5000
+
+// Rotated files kept besides the current one, audit.1.jsonl being the most recent
+const MAX_ROTATED_FILES = 3
+
+function describeError(error: unknown): string {
+	return error instanceof Error ? error.stack || error.message : String(error)
+}
+
+/**
+ * Audit log of tool invocations, to reconstruct what an agent did and saw
+ *
+ * Entries go to a dedicated Output channel, to an optional rotating JSONL file in the extension storage, and to an
+ * in-memory list that the Export Audit Log command writes out for the current session.
+ */
+export class AuditLog {
+	private static channel: vscode.LogOutputChannel | undefined
+	private static directory: vscode.Uri | undefined
+	private static readonly session = crypto.randomBytes(4).toString("hex")
+	private static readonly entries: AuditEntry[] = []
+	private static readonly invocations = new AsyncLocalStorage<InvocationReport>()
+	// Appends to the file are serialized, so rotation never interleaves with them
+	private static pendingWrite: Promise<void> = Promise.resolve()
+
+	/**
+	 * Creates the Output channel and sets where the log file is written
+	 *
+	 * @param storageUri The extension's storage, the workspace storage when there is one
+	 * @returns A disposable that closes the Output channel
+	 */
+	static initialize(storageUri: vscode.Uri): vscode.Disposable {
+		AuditLog.channel = vscode.window.createOutputChannel("Roo NB Audit", { log: true })
+		AuditLog.directory = vscode.Uri.joinPath(storageUri, "audit")
+		AuditLog.channel.info(`Session ${AuditLog.session} started`)
+		return AuditLog.channel
+	}
+
+	/**
+	 * Records the result a tool is about to return, called by the tools within {@link AuditLog.record}
+	 */
+	static noteResult(text: string, isError: boolean) {
+		const report = AuditLog.invocations.getStore()
+		if (report) {
+			report.result = text
+			report.isError ||= isError
+		}
+	}
+
+	/**
+	 * Records an error a tool caught to report it in its result, called by the tools within {@link AuditLog.record}
+	 */
+	static noteError(error: unknown) {
+		const report = AuditLog.invocations.getStore()
+		if (report) {
+			report.error = error
+		}
+	}
+
+	/**
+	 * Logs a failure that does not prevent the tool from running, within {@link AuditLog.record} it is also recorded
+	 * in the entry of the invocation
+	 */
+	static noteWarning(message: string) {
+		AuditLog.channel?.warn(message)
+		AuditLog.invocations.getStore()?.warnings.push(message)
+	}
+
+	/**
+	 * Runs a tool invocation and records it
+	 *
+	 * @param tool Name of the tool
+	 * @param input The input of the invocation
+	 * @param notebook The notebook the invocation targets, if known
+	 * @param options Options of the audit log
+	 * @param token The cancellation token of the invocation
+	 * @param invoke Runs the invocation
+	 * @returns The result of the invocation
+	 */
+	static async record<R>(
+		tool: string,
+		input: unknown,
+		notebook: string | undefined,
+		options: AuditOptions,
+		token: vscode.CancellationToken,
+		invoke: () => Promise<R>,
+	): Promise<R> {
+		const report: InvocationReport = { isError: false, warnings: [] }
+		const startedAt = Date.now()
+		try {
+			return await AuditLog.invocations.run(report, invoke)
+		} catch (error) {
+			report.isError = true
+			// A tool signalling an error it noted throws a wrapper, the noted error keeps the stack
+			report.error ??= error
+			throw error
+		} finally {
+			// Logging must never change the outcome of the invocation
+			try {
+				AuditLog.add(AuditLog.createEntry(tool, input, notebook, options, token, report, startedAt), options)
+			} catch (error) {
+				AuditLog.channel?.warn(`Could not record the invocation of ${tool}: ${describeError(error)}`)
+			}
+		}
+	}
+
+	private static createEntry(
+		tool: string,
+		input: unknown,
+		notebook: string | undefined,
+		options: AuditOptions,
+		token: vscode.CancellationToken,
+		report: InvocationReport,
+		startedAt: number,
+	): AuditEntry {
+		let result = report.result
+		if (result !== undefined && result.length > options.maxResultLength) {
+			result = truncateText(result, options.maxResultLength, "head_tail").text
+		}
+		const redactedInput = options.redact(JSON.stringify(input ?? {}))
+		let recordedInput: unknown
+		try {
+			recordedInput = JSON.parse(redactedInput)
+		} catch {
+			// A user pattern cut through JSON syntax, the input is kept as text then
+			recordedInput = redactedInput
+		}
+		return {
+			timestamp: new Date(startedAt).toISOString(),
+			session: AuditLog.session,
+			tool,
+			notebook,
+			input: recordedInput,
+			durationMs: Date.now() - startedAt,
+			outcome: report.isError ? "error" : token.isCancellationRequested ? "cancelled" : "success",
+			result: result !== undefined ? options.redact(result) : undefined,
+			error: report.error !== undefined ? options.redact(describeError(report.error)) : undefined,
+			warnings: report.warnings.length > 0 ? report.warnings.map(options.redact) : undefined,
+		}
+	}
+
+	private static add(entry: AuditEntry, options: AuditOptions) {
+		AuditLog.entries.push(entry)
+		if (AuditLog.entries.length > MAX_SESSION_ENTRIES) AuditLog.entries.shift()
+
+		const summary = `${entry.tool} on ${entry.notebook ?? "no notebook"}: ${entry.outcome} in ${entry.durationMs}ms, input ${JSON.stringify(entry.input)}`
+		if (entry.outcome === "error") {
+			AuditLog.channel?.error(`${summary}\n${entry.error ?? entry.result ?? ""}`)
+		} else {
+			AuditLog.channel?.info(summary)
+		}
+
+		if (options.toFile && AuditLog.directory) {
+			const directory = AuditLog.directory.fsPath
+			AuditLog.pendingWrite = AuditLog.pendingWrite
+				.then(() => AuditLog.append(directory, JSON.stringify(entry) + "\n", options.maxFileSize))
+				.catch((error) => AuditLog.channel?.warn(`Could not write the audit log file: ${describeError(error)}`))
+		}
+	}
+
+	private static async append(directory: string, line: string, maxFileSize: number) {
+		await fs.mkdir(directory, { recursive: true })
+		const file = path.join(directory, "audit.jsonl")
+		const size = await fs.stat(file).then(
+			(stat) => stat.size,
+			() => 0,
+		)
+		if (size > 0 && size + line.length > maxFileSize) {
+			for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+				await fs.rename(path.join(directory, `audit.${i}.jsonl`), path.join(directory, `audit.${i + 1}.jsonl`)).catch(() => {})
+			}
+			await fs.rename(file, path.join(directory, "audit.1.jsonl"))
+		}
+		await fs.appendFile(file, line, "utf8")
+	}
+
+	/**
+	 * Shows the Output channel of the audit log
+	 */
+	static show() {
+		AuditLog.channel?.show(true)
+	}
+
+	/**
+	 * Writes the entries of the current session to a JSONL file the user picks
+	 *
+	 * @returns The URI of the written file, undefined when the user cancelled
+	 */
+	static async export(): Promise<vscode.Uri | undefined> {
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(
+				vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(process.cwd()),
+				`roo-nb-audit-${AuditLog.session}.jsonl`,
+			),
+			filters: { "JSON Lines": ["jsonl"] },
+		})
+		if (!uri) return undefined
+		const content = AuditLog.entries.map((entry) => JSON.stringify(entry) + "\n").join("")
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"))
+		return uri
+	}
+}
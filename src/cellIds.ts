@@ -0,0 +1,77 @@
+import * as crypto from "crypto"
+import * as vscode from "vscode"
+import { ToolError } from "./validation"
+
+/**
+ * Gets the stable id of a cell, the nbformat 4.5 cell `id` kept in the cell metadata
+ */
+export function getCellId(cell: vscode.NotebookCell): string | undefined {
+	const id = cell.metadata?.id
+	return typeof id === "string" && id !== "" ? id : undefined
+}
+
+/**
+ * Generates a random cell id, of the same shape as the ids Jupyter generates: 8 hex digits
+ */
+export function randomCellId(): string {
+	return crypto.randomBytes(4).toString("hex")
+}
+
+/**
+ * Generates a cell id not used by any cell of the notebook
+ *
+ * @param notebook The notebook document
+ * @param reserved Ids already handed out but not in the notebook yet
+ */
+export function newCellId(notebook: vscode.NotebookDocument, reserved: Set<string> = new Set()): string {
+	const used = new Set(notebook.getCells().map(getCellId))
+	for (;;) {
+		const id = randomCellId()
+		if (!used.has(id) && !reserved.has(id)) {
+			reserved.add(id)
+			return id
+		}
+	}
+}
+
+/**
+ * Gives an id to the cells of a notebook lacking one, persisted in their metadata
+ *
+ * @param notebook The notebook document
+ */
+export async function ensureCellIds(notebook: vscode.NotebookDocument): Promise<void> {
+	const reserved = new Set<string>()
+	const edits = notebook
+		.getCells()
+		.filter((cell) => getCellId(cell) === undefined)
+		.map((cell) =>
+			vscode.NotebookEdit.updateCellMetadata(cell.index, { ...cell.metadata, id: newCellId(notebook, reserved) }),
+		)
+	if (edits.length === 0) return
+
+	const workspaceEdit = new vscode.WorkspaceEdit()
+	workspaceEdit.set(notebook.uri, edits)
+	await vscode.workspace.applyEdit(workspaceEdit)
+}
+
+/**
+ * Finds the index of a cell by its id
+ *
+ * @param notebook The notebook document
+ * @param cellId The cell id
+ * @returns The current index of the cell
+ */
+export function findCellIndex(notebook: vscode.NotebookDocument, cellId: string): number {
+	const cell = notebook.getCells().find((c) => getCellId(c) === cellId)
+	if (!cell) {
+		throw new ToolError("not_found", `No cell with id "${cellId}" in notebook ${notebook.uri.toString()}`)
+	}
+	return cell.index
+}
+
+/**
+ * Describes cells by their ids and indices, e.g. "a1b2c3d4 (index 3), e5f6a7b8 (index 4)"
+ */
+export function describeCellIds(cells: vscode.NotebookCell[]): string {
+	return cells.map((cell) => `${getCellId(cell) ?? "(no id)"} (index ${cell.index})`).join(", ")
+}
@@ -0,0 +1,432 @@
+import * as crypto from "crypto"
+import * as vscode from "vscode"
+import { formatIndexRanges } from "./execution"
+import { createUnifiedDiff } from "./patch"
+import { truncateText } from "./outputs"
+import { resolveNotebook } from "./resolve"
+import { ToolError } from "./validation"
+import { NotebookVersions } from "./versions"
+
+/**
+ * A cell as stored in a checkpoint, output data is base64 encoded
+ */
+interface StoredCell {
+	kind: "code" | "markup"
+	languageId: string
+	source: string
+	metadata: Record<string, unknown>
+	outputs: Array<{ items: Array<{ mime: string; data: string }>; metadata?: Record<string, unknown> }>
+	executionSummary?: vscode.NotebookCellExecutionSummary
+}
+
+/**
+ * Describes a checkpoint, as listed in the index of a notebook's checkpoints
+ */
+interface CheckpointInfo {
+	id: number
+	label: string
+	/** ISO date of the checkpoint */
+	createdAt: string
+	/** Whether the checkpoint was taken before a mutating tool call, rather than on request */
+	automatic: boolean
+	cellCount: number
+}
+
+/**
+ * The saved state of a notebook
+ */
+interface Checkpoint extends CheckpointInfo {
+	notebook: string
+	metadata: Record<string, unknown>
+	cells: StoredCell[]
+}
+
+/**
+ * The checkpoints of a notebook, oldest first
+ */
+interface CheckpointIndex {
+	notebook: string
+	nextId: number
+	checkpoints: CheckpointInfo[]
+}
+
+function storeCell(cell: vscode.NotebookCell): StoredCell {
+	return {
+		kind: cell.kind === vscode.NotebookCellKind.Code ? "code" : "markup",
+		languageId: cell.document.languageId,
+		source: cell.document.getText(),
+		metadata: cell.metadata,
+		outputs: cell.outputs.map((output) => ({
+			items: output.items.map((item) => ({ mime: item.mime, data: Buffer.from(item.data).toString("base64") })),
+			metadata: output.metadata,
+		})),
+		executionSummary: cell.executionSummary,
+	}
+}
+
+/**
+ * Narrows metadata read back from a checkpoint file, anything but a plain object is taken as no metadata
+ */
+function asMetadata(value: unknown): Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
+
+function restoreCell(stored: StoredCell): vscode.NotebookCellData {
+	const cellData = new vscode.NotebookCellData(
+		stored.kind === "code" ? vscode.NotebookCellKind.Code : vscode.NotebookCellKind.Markup,
+		stored.source,
+		stored.languageId,
+	)
+	cellData.metadata = asMetadata(stored.metadata)
+	cellData.outputs = stored.outputs.map(
+		(output) =>
+			new vscode.NotebookCellOutput(
+				output.items.map((item) => new vscode.NotebookCellOutputItem(Buffer.from(item.data, "base64"), item.mime)),
+				output.metadata === undefined ? undefined : asMetadata(output.metadata),
+			),
+	)
+	cellData.executionSummary = stored.executionSummary
+	return cellData
+}
+
+function storedCellId(cell: StoredCell): string | undefined {
+	const id = cell.metadata?.id
+	return typeof id === "string" && id !== "" ? id : undefined
+}
+
+function describeStoredCell(index: number, cell: StoredCell): string {
+	const id = storedCellId(cell)
+	return id ? `${index} (id: ${id})` : `${index}`
+}
+
+function describeCheckpoint(checkpoint: CheckpointInfo): string {
+	return `checkpoint ${checkpoint.id} "${checkpoint.label}" (${checkpoint.createdAt})`
+}
+
+/**
+ * Pairs the cells of a checkpoint with the current ones, by cell id or, for cells without one, by index
+ *
+ * @returns The current index of each checkpoint cell, -1 for removed cells
+ */
+function matchCells(before: StoredCell[], after: StoredCell[]): number[] {
+	const afterIds = new Map<string, number>()
+	after.forEach((cell, index) => {
+		const id = storedCellId(cell)
+		if (id !== undefined && !afterIds.has(id)) afterIds.set(id, index)
+	})
+	const matched = new Set<number>()
+	return before.map((cell, index) => {
+		const id = storedCellId(cell)
+		let match = id !== undefined ? (afterIds.get(id) ?? -1) : -1
+		if (id === undefined && index < after.length && storedCellId(after[index]) === undefined) match = index
+		if (match >= 0 && matched.has(match)) match = -1
+		if (match >= 0) matched.add(match)
+		return match
+	})
+}
+
+/**
+ * Checkpoints of notebooks, snapshots of their cells that edits can be rolled back to
+ *
+ * Checkpoints hold the sources, metadata and outputs of the cells and the notebook metadata, not the kernel state.
+ * They are stored per notebook in the extension's storage, with an index listing them and one file per checkpoint.
+ */
+export class NotebookCheckpoints {
+	private static storageUri: vscode.Uri | undefined
+	// Notebook version of the last automatic checkpoint of each notebook, an unchanged notebook needs no new one
+	private static readonly checkpointedVersions = new WeakMap<vscode.NotebookDocument, number>()
+	// Pending operation of each notebook, operations on the same index are serialized
+	private static readonly queues = new Map<string, Promise<unknown>>()
+
+	/**
+	 * Sets where checkpoints are stored
+	 *
+	 * @param storageUri The extension's storage, the workspace storage when there is one
+	 */
+	static initialize(storageUri: vscode.Uri) {
+		NotebookCheckpoints.storageUri = storageUri
+	}
+
+	private static directory(notebook: vscode.NotebookDocument): vscode.Uri {
+		if (!NotebookCheckpoints.storageUri) {
+			throw new Error("Checkpoints are not available, the extension storage is not initialized")
+		}
+		const key = crypto.createHash("sha1").update(notebook.uri.toString()).digest("hex").substring(0, 16)
+		return vscode.Uri.joinPath(NotebookCheckpoints.storageUri, "checkpoints", key)
+	}
+
+	private static serialize<R>(notebook: vscode.NotebookDocument, operation: () => Promise<R>): Promise<R> {
+		const key = notebook.uri.toString()
+		const result = (NotebookCheckpoints.queues.get(key) ?? Promise.resolve()).then(operation, operation)
+		NotebookCheckpoints.queues.set(key, result.catch(() => undefined))
+		return result
+	}
+
+	private static async readJson<R>(uri: vscode.Uri): Promise<R | undefined> {
+		try {
+			return JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8"))
+		} catch (error) {
+			if (error instanceof vscode.FileSystemError && error.code === "FileNotFound") return undefined
+			throw error
+		}
+	}
+
+	private static async writeJson(uri: vscode.Uri, content: unknown) {
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(content), "utf8"))
+	}
+
+	private static async readIndex(notebook: vscode.NotebookDocument): Promise<CheckpointIndex> {
+		const index = await NotebookCheckpoints.readJson<CheckpointIndex>(
+			vscode.Uri.joinPath(NotebookCheckpoints.directory(notebook), "index.json"),
+		)
+		return index ?? { notebook: notebook.uri.toString(), nextId: 1, checkpoints: [] }
+	}
+
+	private static async readCheckpoint(notebook: vscode.NotebookDocument, checkpointId: number): Promise<Checkpoint> {
+		const index = await NotebookCheckpoints.readIndex(notebook)
+		const checkpoint = index.checkpoints.some((entry) => entry.id === checkpointId)
+			? await NotebookCheckpoints.readJson<Checkpoint>(
+					vscode.Uri.joinPath(NotebookCheckpoints.directory(notebook), `${checkpointId}.json`),
+				)
+			: undefined
+		if (!checkpoint) {
+			const available = index.checkpoints.map((entry) => entry.id)
+			throw new ToolError(
+				"not_found",
+				`Checkpoint ${checkpointId} not found for notebook ${notebook.uri.toString()}, ` +
+					(available.length > 0
+						? `available checkpoints: ${formatIndexRanges(available)}`
+						: "the notebook has no checkpoints"),
+				"checkpoint_id",
+				available.length > 0 ? formatIndexRanges(available) : "none",
+			)
+		}
+		return checkpoint
+	}
+
+	/**
+	 * Saves the current state of a notebook, the oldest checkpoints are removed past the retention limit
+	 */
+	private static save(
+		notebook: vscode.NotebookDocument,
+		label: string,
+		automatic: boolean,
+		maxCheckpoints: number,
+	): Promise<CheckpointInfo> {
+		return NotebookCheckpoints.serialize(notebook, async () => {
+			const directory = NotebookCheckpoints.directory(notebook)
+			await vscode.workspace.fs.createDirectory(directory)
+
+			const index = await NotebookCheckpoints.readIndex(notebook)
+			const info: CheckpointInfo = {
+				id: index.nextId,
+				label,
+				createdAt: new Date().toISOString(),
+				automatic,
+				cellCount: notebook.cellCount,
+			}
+			const checkpoint: Checkpoint = {
+				...info,
+				notebook: notebook.uri.toString(),
+				metadata: notebook.metadata,
+				cells: notebook.getCells().map(storeCell),
+			}
+			await NotebookCheckpoints.writeJson(vscode.Uri.joinPath(directory, `${info.id}.json`), checkpoint)
+
+			index.nextId++
+			index.checkpoints.push(info)
+			const expired = index.checkpoints.splice(0, Math.max(0, index.checkpoints.length - Math.max(1, maxCheckpoints)))
+			await NotebookCheckpoints.writeJson(vscode.Uri.joinPath(directory, "index.json"), index)
+			for (const entry of expired) {
+				try {
+					await vscode.workspace.fs.delete(vscode.Uri.joinPath(directory, `${entry.id}.json`))
+				} catch {
+					// Already gone, the index no longer lists it anyway
+				}
+			}
+			return info
+		})
+	}
+
+	/**
+	 * Creates a checkpoint of a notebook on request
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param label Optional description of the checkpoint
+	 * @param maxCheckpoints Number of checkpoints kept per notebook
+	 * @returns A string describing the checkpoint
+	 */
+	static async create(notebookRef: string | undefined, label: string | undefined, maxCheckpoints: number): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const info = await NotebookCheckpoints.save(notebook, label || "Manual checkpoint", false, maxCheckpoints)
+		return (
+			`Created ${describeCheckpoint(info)} of notebook ${notebook.uri.toString()} with ${info.cellCount} cells.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Creates a checkpoint of a notebook before a mutating tool call, unless the notebook did not change since the last one
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param toolName Display name of the tool about to change the notebook
+	 * @param maxCheckpoints Number of checkpoints kept per notebook
+	 */
+	static async createAutomatic(notebookRef: string | undefined, toolName: string, maxCheckpoints: number): Promise<void> {
+		const notebook = await resolveNotebook(notebookRef)
+		if (NotebookCheckpoints.checkpointedVersions.get(notebook) === notebook.version) return
+
+		await NotebookCheckpoints.save(notebook, `Before ${toolName}`, true, maxCheckpoints)
+		NotebookCheckpoints.checkpointedVersions.set(notebook, notebook.version)
+	}
+
+	/**
+	 * Lists the checkpoints of a notebook
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string listing the checkpoints, newest first
+	 */
+	static async list(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const index = await NotebookCheckpoints.serialize(notebook, () => NotebookCheckpoints.readIndex(notebook))
+
+		let result = `# Checkpoints of ${notebook.uri.toString()}\n\n`
+		if (index.checkpoints.length === 0) {
+			return result + "The notebook has no checkpoints."
+		}
+		result += "| Id | Label | Created | Cells | Kind |\n|---|---|---|---|---|\n"
+		for (const checkpoint of [...index.checkpoints].reverse()) {
+			result += `| ${checkpoint.id} | ${checkpoint.label.replace(/\|/g, "\\|")} | ${checkpoint.createdAt} | ${checkpoint.cellCount} | ${checkpoint.automatic ? "automatic" : "manual"} |\n`
+		}
+		return result
+	}
+
+	/**
+	 * Restores a notebook to a checkpoint, the current state is saved as a new checkpoint first
+	 *
+	 * The cells are replaced as a whole, with their sources, metadata and outputs, and so is the notebook metadata. The
+	 * kernel state is left as is.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param checkpointId Id of the checkpoint
+	 * @param expectedVersion Optional version token the restore is based on, it fails when the cells changed since
+	 * @param maxCheckpoints Number of checkpoints kept per notebook
+	 * @returns A string indicating success or failure
+	 */
+	static async restore(
+		notebookRef: string | undefined,
+		checkpointId: number,
+		expectedVersion: string | undefined,
+		maxCheckpoints: number,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const checkpoint = await NotebookCheckpoints.serialize(notebook, () =>
+			NotebookCheckpoints.readCheckpoint(notebook, checkpointId),
+		)
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const backup = await NotebookCheckpoints.save(
+			notebook,
+			`Before restoring checkpoint ${checkpointId}`,
+			false,
+			maxCheckpoints,
+		)
+
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, [
+			vscode.NotebookEdit.replaceCells(new vscode.NotebookRange(0, notebook.cellCount), checkpoint.cells.map(restoreCell)),
+			vscode.NotebookEdit.updateNotebookMetadata(asMetadata(checkpoint.metadata)),
+		])
+		if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+			throw new Error(`The notebook rejected the edit, ${describeCheckpoint(checkpoint)} was not restored`)
+		}
+
+		return (
+			`Restored ${describeCheckpoint(checkpoint)} of notebook ${notebook.uri.toString()}: ${checkpoint.cells.length} cells. ` +
+			`The state before the restore was saved as checkpoint ${backup.id}. ` +
+			`The kernel state was not restored, re-execute cells that later cells depend on.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Describes how a notebook changed since a checkpoint
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param checkpointId Id of the checkpoint
+	 * @param maxDiffSize Maximum size in characters of the source diff shown per cell
+	 * @returns A string listing added, removed and reordered cells, and the changes of the other cells
+	 */
+	static async diff(notebookRef: string | undefined, checkpointId: number, maxDiffSize: number): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const checkpoint = await NotebookCheckpoints.serialize(notebook, () =>
+			NotebookCheckpoints.readCheckpoint(notebook, checkpointId),
+		)
+		const before = checkpoint.cells
+		const after = notebook.getCells().map(storeCell)
+		const matches = matchCells(before, after)
+
+		let result = `# Changes since ${describeCheckpoint(checkpoint)}\n\n`
+		result += `Notebook: ${notebook.uri.toString()}, ${before.length} cells then, ${after.length} now.\n`
+		const changes: string[] = []
+
+		const removed = before.map((cell, index) => ({ cell, index })).filter(({ index }) => matches[index] < 0)
+		if (removed.length > 0) {
+			changes.push(
+				`## Removed Cells\nFormer indices: ${removed.map(({ cell, index }) => describeStoredCell(index, cell)).join(", ")}`,
+			)
+		}
+		const matchedAfter = new Set(matches)
+		const added = after.map((cell, index) => ({ cell, index })).filter(({ index }) => !matchedAfter.has(index))
+		if (added.length > 0) {
+			changes.push(`## Added Cells\nIndices: ${added.map(({ cell, index }) => describeStoredCell(index, cell)).join(", ")}`)
+		}
+		const keptOrder = matches.filter((match) => match >= 0)
+		if (keptOrder.some((match, i) => i > 0 && match < keptOrder[i - 1])) {
+			changes.push(`## Reordered Cells\nCells kept since the checkpoint are in a different order.`)
+		}
+
+		before.forEach((then, index) => {
+			if (matches[index] < 0) return
+			const now = after[matches[index]]
+			const notes: string[] = []
+			if (then.kind !== now.kind || then.languageId !== now.languageId) {
+				notes.push(`- Type changed from ${then.kind} (${then.languageId}) to ${now.kind} (${now.languageId})`)
+			}
+			if (JSON.stringify(then.metadata?.metadata ?? {}) !== JSON.stringify(now.metadata?.metadata ?? {})) {
+				notes.push("- Metadata changed")
+			}
+			if (
+				JSON.stringify(then.outputs) !== JSON.stringify(now.outputs) ||
+				then.executionSummary?.executionOrder !== now.executionSummary?.executionOrder
+			) {
+				notes.push(
+					`- Outputs changed: ${then.outputs.length} then, ${now.outputs.length} now` +
+						(then.executionSummary?.executionOrder !== now.executionSummary?.executionOrder
+							? `, execution count ${then.executionSummary?.executionOrder ?? "none"} then, ${now.executionSummary?.executionOrder ?? "none"} now`
+							: ""),
+				)
+			}
+			let diff = createUnifiedDiff(then.source, now.source)
+			if (diff.length > maxDiffSize) {
+				diff = truncateText(diff, maxDiffSize, "head").text
+			}
+			if (diff) notes.push("- Source changed:\n```diff\n" + diff + "\n```")
+			if (notes.length > 0) {
+				const where = index === matches[index] ? `${index}` : `${index} (now ${matches[index]})`
+				const id = storedCellId(now)
+				changes.push(`## Cell ${where}${id ? ` [id: ${id}]` : ""}\n${notes.join("\n")}`)
+			}
+		})
+
+		if (JSON.stringify(checkpoint.metadata?.metadata ?? {}) !== JSON.stringify(notebook.metadata?.metadata ?? {})) {
+			changes.push("## Notebook Metadata\nThe notebook metadata changed.")
+		}
+
+		if (changes.length === 0) {
+			return result + "\nThe notebook is unchanged since the checkpoint."
+		}
+		return result + "\n" + changes.join("\n\n")
+	}
+}
@@ -0,0 +1,348 @@
+import * as vscode from "vscode"
+import { hasCellTag, RAISES_EXCEPTION_TAG, SKIP_EXECUTION_TAG } from "./metadata"
+import { OutputOptions } from "./outputs"
+import { ExecutionPolicy } from "./policy"
+
+/**
+ * How a run of cells proceeds
+ *
+ * - `stop_on_error`: run the given range, stop at the first cell that fails
+ * - `continue`: run the given range cell by cell, carrying on past failing cells
+ * - `run_all`: run all cells of the notebook, stop at the first cell that fails
+ * - `run_from_here`: run from the start of the given range to the end of the notebook, stop at the first failure
+ * - `run_until`: run from the top of the notebook to the end of the given range, stop at the first failure
+ */
+export type ExecutionMode = "stop_on_error" | "continue" | "run_all" | "run_from_here" | "run_until"
+
+export const EXECUTION_MODES: ExecutionMode[] = ["stop_on_error", "continue", "run_all", "run_from_here", "run_until"]
+
+/**
+ * Options controlling how cells are executed and how their results are reported
+ */
+export interface ExecutionOptions extends Partial<OutputOptions> {
+	/** Maximum seconds to wait for execution */
+	timeoutSeconds?: number
+	/** How the run proceeds, defaults to `stop_on_error` */
+	mode?: ExecutionMode
+	/** Whether to interrupt the kernel when the execution times out, instead of leaving it running */
+	interruptOnTimeout?: boolean
+	/** Whether to interrupt the kernel when the execution is cancelled, instead of leaving it running */
+	interruptOnCancel?: boolean
+	/** Whether to run in a background job, returning its id immediately instead of waiting for completion */
+	background?: boolean
+	/** Maximum seconds a background job waits for execution, 0 for no limit */
+	backgroundTimeoutSeconds?: number
+	/** Whether to skip cells tagged `skip-execution` and run past errors of cells tagged `raises-exception` */
+	honorCellTags?: boolean
+	/** The policy consulted before code is run, everything runs without one */
+	executionPolicy?: ExecutionPolicy
+}
+
+/**
+ * Resolves the half-open range of cells an execution mode covers
+ *
+ * @param mode The execution mode
+ * @param startIndex The starting index (inclusive) of the requested range
+ * @param stopIndex The stopping index (exclusive) of the requested range
+ * @param cellCount The number of cells in the notebook
+ * @returns The range of cells to execute
+ */
+export function resolveExecutionRange(
+	mode: ExecutionMode,
+	startIndex: number,
+	stopIndex: number,
+	cellCount: number,
+): { startIndex: number; stopIndex: number } {
+	switch (mode) {
+		case "run_all":
+			return { startIndex: 0, stopIndex: cellCount }
+		case "run_from_here":
+			return { startIndex, stopIndex: cellCount }
+		case "run_until":
+			return { startIndex: 0, stopIndex }
+		default:
+			return { startIndex, stopIndex }
+	}
+}
+
+/**
+ * Lifecycle status of a cell taking part in an execution
+ *
+ * - `pending`: queued for execution, not observed to start (yet)
+ * - `running`: started, not finished (yet)
+ * - `succeeded` / `failed`: finished, as reported by the kernel controller
+ * - `skipped`: not submitted to the kernel at all, empty cells or cells tagged `skip-execution`
+ * - `not-run`: the controller gave up on the cell before starting it, e.g. after an earlier cell failed
+ */
+export type CellExecutionStatus = "pending" | "running" | "succeeded" | "failed" | "skipped" | "not-run"
+
+/**
+ * Execution state of a single cell, as observed through notebook document change events
+ */
+export interface CellExecutionRecord {
+	cell: vscode.NotebookCell
+	status: CellExecutionStatus
+	/** Why a skipped cell was not submitted */
+	skipReason?: "empty" | "tagged"
+	/** Whether the cell is tagged `raises-exception`, its failure doesn't stop the run */
+	expectsError?: boolean
+	executionOrder?: number
+	startTime?: number
+	endTime?: number
+	durationMs?: number
+}
+
+/**
+ * State of a run of cells, updated live while the run proceeds
+ */
+export interface ExecutionRun {
+	notebook: vscode.NotebookDocument
+	startIndex: number
+	stopIndex: number
+	mode: ExecutionMode
+	/** Maximum seconds the run waits for cells to complete, 0 for no limit */
+	timeoutSeconds: number
+	/** Execution records of the code cells in the range, shared with the tracker */
+	records: CellExecutionRecord[]
+	/** Whether the run stopped waiting for its cells */
+	finished: boolean
+	/** Whether all cells settled before the run stopped waiting */
+	allSettled: boolean
+	/** Whether the kernel was interrupted because of a timeout or cancellation */
+	interrupted: boolean
+	/** Whether the run was cancelled */
+	cancelled: boolean
+	/** The decisions of the execution policy on the run's code, empty when no rule matched */
+	policyReport?: string
+}
+
+// How long to keep waiting for queued cells to be cancelled by the controller after a cell failed
+const FAILURE_SETTLE_MS = 1000
+
+function isSettled(record: CellExecutionRecord): boolean {
+	return record.status !== "pending" && record.status !== "running"
+}
+
+/**
+ * Tracks the execution of a set of cells via `onDidChangeNotebookDocument` execution summary changes
+ *
+ * The tracker must be created before the execution is requested, so that no change event is missed.
+ */
+export class CellExecutionTracker implements vscode.Disposable {
+	readonly records: CellExecutionRecord[]
+
+	private readonly baselines = new Map<CellExecutionRecord, vscode.NotebookCellExecutionSummary | undefined>()
+	private readonly listener: vscode.Disposable
+	private waiters: Array<{ records: CellExecutionRecord[]; resolve: () => void; failureTimer?: NodeJS.Timeout }> = []
+
+	constructor(
+		private readonly notebook: vscode.NotebookDocument,
+		cells: vscode.NotebookCell[],
+		honorCellTags: boolean = true,
+	) {
+		this.records = cells.map((cell) => {
+			const record: CellExecutionRecord = { cell, status: "pending" }
+			if (cell.document.getText().trim() === "") {
+				// Controllers do not run empty cells, they would never report back
+				record.status = "skipped"
+				record.skipReason = "empty"
+			} else if (honorCellTags && hasCellTag(cell, SKIP_EXECUTION_TAG)) {
+				record.status = "skipped"
+				record.skipReason = "tagged"
+			} else if (honorCellTags && hasCellTag(cell, RAISES_EXCEPTION_TAG)) {
+				record.expectsError = true
+			}
+			this.baselines.set(record, cell.executionSummary)
+			return record
+		})
+
+		this.listener = vscode.workspace.onDidChangeNotebookDocument((e) => {
+			if (e.notebook !== this.notebook) return
+			for (const change of e.cellChanges) {
+				if (change.executionSummary === undefined) continue
+				const record = this.records.find((r) => r.cell === change.cell)
+				if (record) this.update(record, change.executionSummary)
+			}
+			this.checkSettled()
+		})
+	}
+
+	private update(record: CellExecutionRecord, summary: vscode.NotebookCellExecutionSummary) {
+		if (isSettled(record)) return
+
+		const baseline = this.baselines.get(record)
+		const timing = summary.timing
+		if (timing?.endTime !== undefined && timing.endTime !== baseline?.timing?.endTime) {
+			// A fresh end time means this run finished
+			record.status = summary.success === false ? "failed" : "succeeded"
+			record.executionOrder = summary.executionOrder
+			record.startTime = timing.startTime
+			record.endTime = timing.endTime
+			record.durationMs = timing.endTime - timing.startTime
+		} else if (timing?.startTime !== undefined && timing.startTime !== baseline?.timing?.startTime) {
+			record.status = "running"
+			record.executionOrder = summary.executionOrder
+			record.startTime = timing.startTime
+		} else if (timing === undefined && summary.executionOrder === undefined) {
+			// The execution was ended without ever starting, the controller cancelled it
+			record.status = record.status === "running" ? "failed" : "not-run"
+		}
+	}
+
+	private checkSettled() {
+		for (const waiter of [...this.waiters]) {
+			if (waiter.records.every(isSettled)) {
+				waiter.resolve()
+				continue
+			}
+
+			// After a failure, controllers normally cancel the queued cells, don't wait forever if one doesn't report that
+			const failed = waiter.records.some((r) => r.status === "failed")
+			const running = waiter.records.some((r) => r.status === "running")
+			if (waiter.failureTimer) {
+				clearTimeout(waiter.failureTimer)
+				waiter.failureTimer = undefined
+			}
+			if (failed && !running) {
+				waiter.failureTimer = setTimeout(waiter.resolve, FAILURE_SETTLE_MS)
+			}
+		}
+	}
+
+	/**
+	 * Waits for tracked cells to settle
+	 *
+	 * @param timeoutMs Maximum milliseconds to wait, `Infinity` to wait without limit
+	 * @param records The records to wait for, defaults to all tracked cells
+	 * @param token Optional cancellation token that stops waiting
+	 * @returns Whether the cells settled before the timeout or cancellation
+	 */
+	async wait(
+		timeoutMs: number,
+		records: CellExecutionRecord[] = this.records,
+		token?: vscode.CancellationToken,
+	): Promise<boolean> {
+		if (token?.isCancellationRequested) return records.every(isSettled)
+
+		let timer: NodeJS.Timeout | undefined
+		let cancellation: vscode.Disposable | undefined
+		const waiter: (typeof this.waiters)[number] = { records, resolve: () => {} }
+		const settled = new Promise<boolean>((resolve) => {
+			waiter.resolve = () => {
+				this.waiters = this.waiters.filter((w) => w !== waiter)
+				if (waiter.failureTimer) clearTimeout(waiter.failureTimer)
+				resolve(true)
+			}
+		})
+		const timedOut = new Promise<boolean>((resolve) => {
+			if (Number.isFinite(timeoutMs)) timer = setTimeout(() => resolve(false), Math.max(0, timeoutMs))
+			cancellation = token?.onCancellationRequested(() => resolve(false))
+		})
+		this.waiters.push(waiter)
+		this.checkSettled()
+		try {
+			return await Promise.race([settled, timedOut])
+		} finally {
+			clearTimeout(timer)
+			cancellation?.dispose()
+			this.waiters = this.waiters.filter((w) => w !== waiter)
+			if (waiter.failureTimer) clearTimeout(waiter.failureTimer)
+		}
+	}
+
+	dispose() {
+		this.listener.dispose()
+		for (const waiter of this.waiters) {
+			if (waiter.failureTimer) clearTimeout(waiter.failureTimer)
+		}
+		this.waiters = []
+	}
+}
+
+/**
+ * Formats cell indices as compact ranges, e.g. "3, 8-12"
+ */
+export function formatIndexRanges(indices: number[]): string {
+	const sorted = [...indices].sort((a, b) => a - b)
+	const parts: string[] = []
+	let i = 0
+	while (i < sorted.length) {
+		let j = i
+		while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++
+		parts.push(j > i ? `${sorted[i]}-${sorted[j]}` : `${sorted[i]}`)
+		i = j + 1
+	}
+	return parts.join(", ")
+}
+
+function describeCells(indices: number[]): string {
+	return `${indices.length > 1 ? "cells" : "cell"} ${formatIndexRanges(indices)}`
+}
+
+function formatDuration(durationMs: number): string {
+	return `${(durationMs / 1000).toFixed(2)}s`
+}
+
+function formatTime(time: number): string {
+	return new Date(time).toISOString()
+}
+
+/**
+ * Summarizes the outcome of an execution, e.g. "cell 7 failed, cells 8-12 were not run"
+ *
+ * @param records The execution records of the cells
+ * @returns A one line summary
+ */
+export function summarizeExecution(records: CellExecutionRecord[]): string {
+	const indicesWith = (...statuses: CellExecutionStatus[]) =>
+		records.filter((r) => statuses.includes(r.status)).map((r) => r.cell.index)
+
+	const parts: string[] = []
+	const succeeded = indicesWith("succeeded")
+	if (succeeded.length > 0) parts.push(`${describeCells(succeeded)} succeeded`)
+	const failed = records.filter((r) => r.status === "failed" && !r.expectsError).map((r) => r.cell.index)
+	if (failed.length > 0) parts.push(`${describeCells(failed)} failed`)
+	const failedAsExpected = records.filter((r) => r.status === "failed" && r.expectsError).map((r) => r.cell.index)
+	if (failedAsExpected.length > 0) parts.push(`${describeCells(failedAsExpected)} failed as expected (raises-exception)`)
+	const running = indicesWith("running")
+	if (running.length > 0) parts.push(`${describeCells(running)} still running`)
+	const notRun = indicesWith("pending", "not-run")
+	if (notRun.length > 0) parts.push(`${describeCells(notRun)} ${notRun.length > 1 ? "were" : "was"} not run`)
+	const skippedEmpty = records.filter((r) => r.status === "skipped" && r.skipReason !== "tagged").map((r) => r.cell.index)
+	if (skippedEmpty.length > 0) parts.push(`${describeCells(skippedEmpty)} skipped (empty)`)
+	const skippedTagged = records.filter((r) => r.status === "skipped" && r.skipReason === "tagged").map((r) => r.cell.index)
+	if (skippedTagged.length > 0) parts.push(`${describeCells(skippedTagged)} skipped (skip-execution)`)
+
+	const summary = parts.join(", ")
+	return summary.charAt(0).toUpperCase() + summary.slice(1) + "."
+}
+
+/**
+ * Describes the execution of a single cell, including its timing when known
+ *
+ * @param record The execution record of the cell
+ * @returns A one line description
+ */
+export function describeCellExecution(record: CellExecutionRecord): string {
+	switch (record.status) {
+		case "succeeded":
+		case "failed": {
+			let text = record.status === "failed" && record.expectsError ? "failed as expected (raises-exception)" : record.status
+			if (record.durationMs !== undefined) {
+				text += ` in ${formatDuration(record.durationMs)}`
+			}
+			if (record.startTime !== undefined && record.endTime !== undefined) {
+				text += ` (started ${formatTime(record.startTime)}, ended ${formatTime(record.endTime)})`
+			}
+			return text
+		}
+		case "running":
+			return record.startTime !== undefined
+				? `still running (started ${formatTime(record.startTime)})`
+				: "still running"
+		case "skipped":
+			return record.skipReason === "tagged" ? "skipped (tagged skip-execution)" : "skipped (empty cell)"
+		default:
+			return "not run"
+	}
+}
@@ -1,48 +1,238 @@
 import * as vscode from 'vscode';
+import { AuditLog, AuditOptions } from './audit';
+import { ensureCellIds, findCellIndex } from './cellIds';
+import { NotebookCheckpoints } from './checkpoints';
+import { ExecutionMode, resolveExecutionRange } from './execution';
+import { ImageCollector } from './images';
+import { TruncationStrategy, truncateText } from './outputs';
+import { ExecutionJobs } from './jobs';
+import { KernelService } from './kernel';
 import { NotebookService } from './notebook';
+import { applyCellPatch, SearchReplaceBlock } from './patch';
+import { ExecutionRule, PolicyAction } from './policy';
+import { describeRedactions, RedactionPattern, redactSecrets } from './redaction';
+import {
+  CellDefinition,
+  codeBlock,
+  previewCellMetadataChange,
+  previewCells,
+  previewExecution,
+  previewMerge,
+  previewMetadataChange,
+  previewMove,
+  previewNewCells,
+  previewReplacement,
+  previewSourceChange,
+  previewSplit,
+  previewTagChange,
+  previewTypeChange
+} from './previews';
+import { resolveNotebook } from './resolve';
+import { StaleCells } from './staleness';
+import { checkCellIndex, checkCellRange, InputSchema, ToolError, validateInput } from './validation';
+import { VariableProvider, VariableProviders } from './variables';
 
-// Proper interface for tool invocation
+// Proper interface for tool invocation, calls run without confirmation when confirmationMessages is omitted
 interface PreparedToolInvocation {
   invocationMessage: string;
-  confirmationMessages: {
+  confirmationMessages?: {
     title: string;
     message: vscode.MarkdownString | string;
   };
 }
 
+// Which calls ask for the user's confirmation, see roo-nb.approval
+type ApprovalPolicy = 'always' | 'writes' | 'destructive' | 'execution';
+
+// What a call does, deciding whether the approval policy asks for confirmation
+interface InvocationImpact {
+  // Changes a notebook, a file or the kernel
+  changes: boolean;
+  // Discards cells, outputs, metadata or kernel state
+  destructive: boolean;
+  // Runs code in the kernel
+  executes: boolean;
+}
+
 abstract class BaseNotebookTool<T> {
   abstract name: string;
   abstract displayName: string;
+  // Whether the tool changes the notebook, a checkpoint is taken before each call then
+  mutating = false;
 
   async prepareInvocation(
     options: vscode.LanguageModelToolInvocationPrepareOptions<T>,
     _token: vscode.CancellationToken
   ): Promise<PreparedToolInvocation> {
+    const input = options.input ?? {} as T;
+    if (!this.requiresConfirmation(input)) {
+      return { invocationMessage: `Invoking ${this.displayName}` };
+    }
+
+    let message: string;
+    try {
+      message = await this.describeInvocation(input);
+    } catch (error) {
+      // Invalid inputs fail the call itself, with a proper error
+      message = `${this.describeInput(input)}\n\nNo preview available: ${error instanceof Error ? error.message : String(error)}`;
+    }
     return {
       invocationMessage: `Invoking ${this.displayName}`,
       confirmationMessages: {
         title: this.displayName,
-        message: new vscode.MarkdownString(`Confirming invocation of ${this.displayName}`)
+        message: new vscode.MarkdownString(message)
       }
     };
   }
 
+  // What a call does, tools override it to tell destructive calls and calls running code apart
+  protected getImpact(_input: T): InvocationImpact {
+    return { changes: this.mutating, destructive: false, executes: false };
+  }
+
+  // Renders what a call is about to do for the confirmation dialog, as markdown
+  protected async describeInvocation(input: T): Promise<string> {
+    return this.describeInput(input);
+  }
+
+  protected describeInput(input: T): string {
+    let parameters = JSON.stringify(input, null, 2);
+    const { maxOutputSize } = this.getExtensionSettings();
+    if (parameters && maxOutputSize > 0 && parameters.length > maxOutputSize) {
+      parameters = truncateText(parameters, maxOutputSize, 'head_tail').text;
+    }
+    return `Confirming invocation of ${this.displayName}` + (parameters && parameters !== '{}' ? ` with:\n\n${codeBlock(parameters, 'json')}` : '');
+  }
+
+  // Whether a call asks for confirmation, per roo-nb.toolApproval or else the roo-nb.approval policy
+  private requiresConfirmation(input: T): boolean {
+    const settings = this.getExtensionSettings();
+    const override = settings.toolApproval[this.name];
+    if (override === 'confirm' || override === 'auto') {
+      return override === 'confirm';
+    }
+
+    const impact = this.getImpact(input);
+    switch (settings.approval) {
+      case 'writes':
+        return impact.changes || impact.destructive || impact.executes;
+      case 'destructive':
+        return impact.destructive;
+      case 'execution':
+        return impact.executes;
+      default:
+        return true;
+    }
+  }
+
   abstract invoke(
     options: vscode.LanguageModelToolInvocationOptions<T>,
     token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult>;
 
   register(context: vscode.ExtensionContext) {
-    context.subscriptions.push(vscode.lm.registerTool(this.name, this));
+    // Inputs are checked against the schema the tool declares in package.json, before the tool runs
+    const schema: InputSchema | undefined = context.extension.packageJSON.contributes?.languageModelTools
+      ?.find((tool: { name: string }) => tool.name === this.name)?.inputSchema;
+    context.subscriptions.push(vscode.lm.registerTool<T>(this.name, {
+      prepareInvocation: (options, token) => this.prepareInvocation(options, token),
+      invoke: (options, token) => AuditLog.record(this.name, options.input, this.describeTarget(options.input), this.getAuditOptions(), token, async () => {
+        try {
+          validateInput(schema, options.input ?? {});
+        } catch (error) {
+          return this.createToolResult(`Invalid input for ${this.displayName}: ${this.formatError(error)}`, true);
+        }
+        if (this.mutating) {
+          await this.createAutomaticCheckpoint(options.input);
+          await this.assignCellIds(options.input);
+        }
+        return this.invoke(options, token);
+      })
+    }));
+  }
+
+  // Tells which notebook a call targets for the audit log, the active one when the input names none
+  private describeTarget(input: T): string | undefined {
+    const { notebook, path } = (input ?? {}) as NotebookTargetInput & { path?: string };
+    return notebook ?? path ?? vscode.window.activeNotebookEditor?.notebook.uri.toString();
+  }
+
+  private getAuditOptions(): AuditOptions {
+    const settings = this.getExtensionSettings();
+    return {
+      toFile: settings.auditLogToFile,
+      maxFileSize: settings.auditLogMaxFileSize,
+      maxResultLength: settings.auditResultLength,
+      redact: text => redactSecrets(text, settings.redaction).text
+    };
+  }
+
+  // Saves the notebook before a mutating call, a failure is logged but doesn't prevent the call
+  private async createAutomaticCheckpoint(input: T) {
+    const settings = this.getExtensionSettings();
+    if (!settings.automaticCheckpoints) {
+      return;
+    }
+    try {
+      const notebook = (input as NotebookTargetInput | undefined)?.notebook;
+      await NotebookCheckpoints.createAutomatic(notebook, this.displayName, settings.maxCheckpoints);
+    } catch (error) {
+      AuditLog.noteWarning(`No checkpoint taken before ${this.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
-  protected createToolResult(text: string, isError = false): vscode.LanguageModelToolResult {
+  // Gives ids to the cells lacking one before a mutating call, read tools never edit the notebook to do so
+  private async assignCellIds(input: T) {
+    try {
+      const notebook = await resolveNotebook((input as NotebookTargetInput | undefined)?.notebook);
+      await ensureCellIds(notebook);
+    } catch (error) {
+      // The call itself reports a notebook that can't be resolved
+      AuditLog.noteWarning(`No cell ids assigned before ${this.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Creates the result of a call, an error result is thrown so the call fails rather than returning the message
+  protected createToolResult(text: string, isError = false, images?: ImageCollector): vscode.LanguageModelToolResult {
+    // Secrets printed by cells or held in their sources are hidden from the model
+    let redacted: string;
+    try {
+      const redaction = redactSecrets(text, this.getExtensionSettings().redaction);
+      redacted = redaction.text + describeRedactions(redaction);
+    } catch (error) {
+      const withheld = `Error: the result of ${this.displayName} was withheld, it could not be redacted: ${error instanceof Error ? error.message : String(error)}`;
+      AuditLog.noteError(error);
+      AuditLog.noteResult(withheld, true);
+      throw new Error(withheld);
+    }
+    AuditLog.noteResult(redacted, isError);
+    if (isError) {
+      throw new Error(redacted);
+    }
     return new vscode.LanguageModelToolResult([
-      new vscode.LanguageModelTextPart(text)
+      new vscode.LanguageModelTextPart(redacted),
+      ...(images?.toResultParts() ?? [])
     ]);
   }
 
+  // Creates a collector for image outputs, unless images are disabled by the call or the settings
+  protected createImageCollector(includeImages?: boolean): ImageCollector | undefined {
+    const settings = this.getExtensionSettings();
+    if (!(includeImages ?? settings.includeImages)) {
+      return undefined;
+    }
+    return new ImageCollector({
+      maxImageBytes: settings.maxImageBytes,
+      maxImageDimension: settings.maxImageDimension
+    });
+  }
+
   protected formatError(error: unknown): string {
+    AuditLog.noteError(error);
+    // Errors the caller can correct are reported with their details rather than a stack
+    if (error instanceof ToolError) {
+      return `${error.message}\n\nError details: ${JSON.stringify(error.details)}`;
+    }
     if (error instanceof Error) {
       return `${error.stack || error.message}`;
     }
@@ -53,19 +243,153 @@ abstract class BaseNotebookTool<T> {
     const config = vscode.workspace.getConfiguration('roo-nb');
     return {
       maxOutputSize: config.get<number>('maxOutputSize', 2000),
-      timeoutSeconds: config.get<number>('timeoutSeconds', 30)
+      timeoutSeconds: config.get<number>('timeoutSeconds', 30),
+      interruptOnTimeout: config.get<boolean>('interruptOnTimeout', false),
+      interruptOnCancel: config.get<boolean>('interruptOnCancel', true),
+      backgroundTimeoutSeconds: config.get<number>('backgroundTimeoutSeconds', 600),
+      includeImages: config.get<boolean>('includeImages', true),
+      maxImageBytes: config.get<number>('maxImageBytes', 1000000),
+      maxImageDimension: config.get<number>('maxImageDimension', 1024),
+      maxTracebackFrames: config.get<number>('maxTracebackFrames', 0),
+      truncation: config.get<TruncationStrategy>('truncationStrategy', 'head_tail'),
+      responseBudget: config.get<number>('responseBudget', 40000),
+      requireExpectedVersion: config.get<boolean>('requireExpectedVersion', false),
+      honorCellTags: config.get<boolean>('honorCellTags', true),
+      automaticCheckpoints: config.get<boolean>('automaticCheckpoints', true),
+      maxCheckpoints: config.get<number>('maxCheckpoints', 20),
+      approval: config.get<ApprovalPolicy>('approval', 'always'),
+      toolApproval: config.get<Record<string, 'confirm' | 'auto'>>('toolApproval', {}),
+      executionPolicy: {
+        rules: config.get<ExecutionRule[]>('executionRules', []),
+        riskyCodeAction: config.get<PolicyAction>('riskyCodeAction', 'allow')
+      },
+      redaction: {
+        builtInDetectors: config.get<boolean>('redactSecrets', true),
+        patterns: config.get<Array<RedactionPattern | string>>('redactionPatterns', []),
+        environmentVariables: config.get<string>('redactEnvironmentVariables', 'KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL')
+      },
+      auditLogToFile: config.get<boolean>('auditLogToFile', false),
+      auditLogMaxFileSize: config.get<number>('auditLogMaxFileSize', 5000000),
+      auditResultLength: config.get<number>('auditResultLength', 2000)
     };
   }
+
+  // Gets the version token an edit is based on, enforcing one when the guard is made mandatory
+  protected getExpectedVersion(input: VersionGuardInput): string | undefined {
+    if (input.expected_version === undefined && this.getExtensionSettings().requireExpectedVersion) {
+      throw new ToolError('missing_parameter', 'Missing required parameter: expected_version, take it from get_notebook_cells or get_notebook_info (required by roo-nb.requireExpectedVersion)', 'expected_version');
+    }
+    return input.expected_version;
+  }
+}
+
+// Common input of tools targeting a notebook, the active notebook editor is used when omitted
+interface NotebookTargetInput {
+  notebook?: string;
+}
+
+// Common input of tools editing a notebook, the edit fails when the cells changed since the expected version
+interface VersionGuardInput {
+  expected_version?: string;
+}
+
+// Common input of tools addressing a range of cells, by half-open index range or by the ids of its first and last cells
+interface CellRangeInput {
+  start_index?: number;
+  stop_index?: number;
+  start_cell_id?: string;
+  end_cell_id?: string;
+}
+
+// Common input of tools addressing a single cell, by index or by id
+interface CellTargetInput {
+  cell_index?: number;
+  cell_id?: string;
+}
+
+// Resolves the bounds of a cell range given by indices or cell ids, ids take precedence
+function resolveCellRange(notebook: vscode.NotebookDocument, input: CellRangeInput) {
+  return {
+    startIndex: input.start_cell_id !== undefined ? findCellIndex(notebook, input.start_cell_id) : input.start_index,
+    stopIndex: input.end_cell_id !== undefined ? findCellIndex(notebook, input.end_cell_id) + 1 : input.stop_index
+  };
+}
+
+// Names the inputs a cell range was given by, for errors to point at them
+function cellRangeFields(input: CellRangeInput) {
+  return {
+    start: input.start_cell_id !== undefined ? 'start_cell_id' : 'start_index',
+    stop: input.end_cell_id !== undefined ? 'end_cell_id' : 'stop_index'
+  };
+}
+
+// Resolves a non-empty cell range that editing tools require, given by indices or cell ids
+function requireCellRange(notebook: vscode.NotebookDocument, cellCount: number, input: CellRangeInput) {
+  const { startIndex, stopIndex } = resolveCellRange(notebook, input);
+  if (startIndex === undefined) {
+    throw new ToolError('missing_parameter', 'Missing required parameters: start_index and stop_index, or start_cell_id and end_cell_id', 'start_index');
+  }
+  if (stopIndex === undefined) {
+    throw new ToolError('missing_parameter', 'Missing required parameters: start_index and stop_index, or start_cell_id and end_cell_id', 'stop_index');
+  }
+  checkCellRange(startIndex, stopIndex, cellCount, cellRangeFields(input));
+  return { startIndex, stopIndex };
+}
+
+// Resolves a cell given by index or cell id, the id takes precedence
+function resolveCellIndex(notebook: vscode.NotebookDocument, input: CellTargetInput) {
+  return input.cell_id !== undefined ? findCellIndex(notebook, input.cell_id) : input.cell_index;
+}
+
+// Resolves the cells targeted by tools accepting either a single cell or a range of cells
+function requireCellRangeOrCell(notebook: vscode.NotebookDocument, cellCount: number, input: CellRangeInput & CellTargetInput) {
+  if (input.cell_index !== undefined || input.cell_id !== undefined) {
+    const cellIndex = requireCellIndex(notebook, cellCount, input);
+    return { startIndex: cellIndex, stopIndex: cellIndex + 1 };
+  }
+  return requireCellRange(notebook, cellCount, input);
+}
+
+// Resolves the index of the cell addressed by a single-cell tool, given by index or cell id
+function requireCellIndex(notebook: vscode.NotebookDocument, cellCount: number, input: CellTargetInput) {
+  const cellIndex = resolveCellIndex(notebook, input);
+  if (cellIndex === undefined) {
+    throw new ToolError('missing_parameter', 'Missing required parameter: cell_index or cell_id', 'cell_index');
+  }
+  checkCellIndex(cellIndex, cellCount, input.cell_id !== undefined ? 'cell_id' : 'cell_index');
+  return cellIndex;
+}
+
+// Gets the cell addressed by a single-cell tool
+function requireCell(notebook: vscode.NotebookDocument, input: CellTargetInput) {
+  return notebook.cellAt(requireCellIndex(notebook, notebook.cellCount, input));
+}
+
+// Tells whether the cells written by an edit tool are executed next, for confirmation previews
+function describeFollowingExecution(input: { noexec?: boolean; execution_mode?: ExecutionMode }, cells: string) {
+  if (input.noexec) {
+    return '';
+  }
+  const scope = input.execution_mode === 'run_all' ? ', along with all other cells'
+    : input.execution_mode === 'run_from_here' ? ', along with all cells below'
+      : input.execution_mode === 'run_until' ? ', along with all cells above'
+        : '';
+  return `\n\n**The ${cells} are then executed${scope}.**`;
+}
+
+// Common input of tools showing cell outputs, image outputs are returned as data parts unless disabled
+interface ImageOutputInput {
+  include_images?: boolean;
 }
 
 // Tool implementations
-class GetNotebookInfoTool extends BaseNotebookTool<void> {
+class GetNotebookInfoTool extends BaseNotebookTool<NotebookTargetInput> {
   name = 'get_notebook_info';
   displayName = 'Get Notebook Info';
 
-  async invoke(_options: vscode.LanguageModelToolInvocationOptions<void>, _token: vscode.CancellationToken) {
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
     try {
-      const info = await NotebookService.getNotebookInfo();
+      const info = await NotebookService.getNotebookInfo(options.input?.notebook);
       return this.createToolResult(info);
     } catch (error) {
       return this.createToolResult(`Error getting notebook info: ${this.formatError(error)}`, true);
@@ -73,193 +397,379 @@ class GetNotebookInfoTool extends BaseNotebookTool<void> {
   }
 }
 
-class GetNotebookCellsTool extends BaseNotebookTool<void> {
+interface GetNotebookCellsInput extends NotebookTargetInput, CellRangeInput, ImageOutputInput {
+  cell_kind?: 'code' | 'markdown';
+  language?: string;
+  filter?: string;
+  filter_regex?: string;
+  include_outputs?: boolean;
+  outputs_only?: boolean;
+  source_only?: boolean;
+  only_errors?: boolean;
+  only_stale?: boolean;
+  tag?: string;
+  include_metadata?: boolean;
+  max_cells?: number;
+}
+
+class GetNotebookCellsTool extends BaseNotebookTool<GetNotebookCellsInput> {
   name = 'get_notebook_cells';
   displayName = 'Get Notebook Cells';
 
-  async invoke(_options: vscode.LanguageModelToolInvocationOptions<void>, _token: vscode.CancellationToken) {
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetNotebookCellsInput>, _token: vscode.CancellationToken) {
     try {
+      const input = options.input ?? {};
+      const sourceOnly = input.source_only || input.include_outputs === false;
+      if (sourceOnly && input.outputs_only) {
+        throw new ToolError('invalid_value', 'outputs_only can not be combined with source_only or include_outputs: false', 'outputs_only');
+      }
+
       const settings = this.getExtensionSettings();
-      const cells = await NotebookService.getCells(settings.maxOutputSize);
-      return this.createToolResult(cells);
+      const images = this.createImageCollector(input.include_images);
+      const cells = await NotebookService.getCells(
+        input.notebook,
+        { ...settings, images },
+        {
+          startIndex: input.start_index,
+          stopIndex: input.stop_index,
+          startCellId: input.start_cell_id,
+          endCellId: input.end_cell_id,
+          kind: input.cell_kind,
+          language: input.language,
+          filter: input.filter,
+          filterRegex: input.filter_regex,
+          onlyErrors: input.only_errors,
+          onlyStale: input.only_stale,
+          tag: input.tag,
+          maxCells: input.max_cells
+        },
+        input.outputs_only ? 'outputs' : sourceOnly ? 'source' : 'all',
+        input.include_metadata
+      );
+      return this.createToolResult(cells, false, images);
     } catch (error) {
       return this.createToolResult(`Error getting notebook cells: ${this.formatError(error)}`, true);
     }
   }
 }
 
-interface InsertNotebookCellsInput {
-  cells: any[];
+interface InsertNotebookCellsInput extends NotebookTargetInput, VersionGuardInput, ImageOutputInput {
+  cells: CellDefinition[];
   insert_position?: number;
   noexec?: boolean;
+  execution_mode?: ExecutionMode;
+  background?: boolean;
 }
 
 class InsertNotebookCellsTool extends BaseNotebookTool<InsertNotebookCellsInput> {
   name = 'insert_notebook_cells';
   displayName = 'Insert Notebook Cells';
+  mutating = true;
 
-  async invoke(options: vscode.LanguageModelToolInvocationOptions<InsertNotebookCellsInput>, _token: vscode.CancellationToken) {
-    try {
-      const { cells, insert_position, noexec } = options.input;
-      if (!cells || !Array.isArray(cells)) {
-        throw new Error('Missing required parameter: cells array');
-      }
+  protected getImpact(input: InsertNotebookCellsInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: !input.noexec };
+  }
+
+  protected async describeInvocation(input: InsertNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const position = typeof input.insert_position === 'number' ? Math.min(Math.max(0, input.insert_position), nb.cellCount) : nb.cellCount;
+    return `Insert ${input.cells.length} cells at position ${position} of ${nb.uri.toString()}:\n\n` +
+      previewNewCells(input.cells, position, this.getExtensionSettings().maxOutputSize) +
+      describeFollowingExecution(input, 'new cells');
+  }
 
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<InsertNotebookCellsInput>, token: vscode.CancellationToken) {
+    try {
+      const { notebook, cells, insert_position, noexec, execution_mode, background, include_images } = options.input;
       const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
       const result = await NotebookService.insertCells(
+        notebook,
+        this.getExpectedVersion(options.input),
         cells,
         insert_position,
         noexec,
-        settings.maxOutputSize,
-        settings.timeoutSeconds
+        { ...settings, mode: execution_mode, background, images },
+        token
       );
-      return this.createToolResult(result);
+      return this.createToolResult(result, false, images);
     } catch (error) {
       return this.createToolResult(`Error inserting cells: ${this.formatError(error)}`, true);
     }
   }
 }
 
-interface ReplaceNotebookCellsInput {
-  start_index: number;
-  stop_index: number;
-  cells: any[];
+interface ReplaceNotebookCellsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput, ImageOutputInput {
+  cells: CellDefinition[];
   noexec?: boolean;
+  execution_mode?: ExecutionMode;
+  background?: boolean;
 }
 
 class ReplaceNotebookCellsTool extends BaseNotebookTool<ReplaceNotebookCellsInput> {
   name = 'replace_notebook_cells';
   displayName = 'Replace Notebook Cells';
+  mutating = true;
 
-  async invoke(options: vscode.LanguageModelToolInvocationOptions<ReplaceNotebookCellsInput>, _token: vscode.CancellationToken) {
-    try {
-      const { start_index, stop_index, cells, noexec } = options.input;
-      if (start_index === undefined || stop_index === undefined || !cells || !Array.isArray(cells)) {
-        throw new Error('Missing required parameters: start_index, stop_index, and cells array');
-      }
+  protected getImpact(input: ReplaceNotebookCellsInput): InvocationImpact {
+    return { changes: true, destructive: true, executes: !input.noexec };
+  }
+
+  protected async describeInvocation(input: ReplaceNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRange(nb, nb.cellCount, input);
+    return `Replace cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()} with ${input.cells.length} cells:\n\n` +
+      previewReplacement(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.cells, this.getExtensionSettings().maxOutputSize) +
+      describeFollowingExecution(input, 'new cells');
+  }
 
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<ReplaceNotebookCellsInput>, token: vscode.CancellationToken) {
+    try {
+      const { notebook, cells, noexec, execution_mode, background, include_images } = options.input;
       const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
       const result = await NotebookService.replaceCells(
-        (cellCount) => {
-          if (start_index < 0 || start_index >= cellCount) {
-            throw new Error(`Start index ${start_index} is out of bounds (0-${cellCount - 1})`);
-          }
-          if (stop_index <= start_index || stop_index > cellCount) {
-            throw new Error(`End index ${stop_index} is invalid. Must be greater than start index ${start_index} and not greater than ${cellCount}`);
-          }
-          return { startIndex: start_index, stopIndex: stop_index, cells };
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => {
+          const { startIndex, stopIndex } = requireCellRange(nb, cellCount, options.input);
+          return { startIndex, stopIndex, cells };
         },
         noexec,
-        settings.maxOutputSize,
-        settings.timeoutSeconds
+        { ...settings, mode: execution_mode, background, images },
+        token
       );
-      return this.createToolResult(result);
+      return this.createToolResult(result, false, images);
     } catch (error) {
       return this.createToolResult(`Error replacing cells: ${this.formatError(error)}`, true);
     }
   }
 }
 
-interface ModifyNotebookCellContentInput {
-  cell_index: number;
+interface ModifyNotebookCellContentInput extends NotebookTargetInput, VersionGuardInput, CellTargetInput, ImageOutputInput {
   content: string;
   noexec?: boolean;
+  execution_mode?: ExecutionMode;
+  background?: boolean;
 }
 
 class ModifyNotebookCellContentTool extends BaseNotebookTool<ModifyNotebookCellContentInput> {
   name = 'modify_notebook_cell_content';
   displayName = 'Modify Notebook Cell Content';
+  mutating = true;
+
+  protected getImpact(input: ModifyNotebookCellContentInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: !input.noexec };
+  }
 
-  async invoke(options: vscode.LanguageModelToolInvocationOptions<ModifyNotebookCellContentInput>, _token: vscode.CancellationToken) {
+  protected async describeInvocation(input: ModifyNotebookCellContentInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const cell = requireCell(nb, input);
+    return `Change the source of cell ${cell.index} of ${nb.uri.toString()}:\n\n` +
+      previewSourceChange(cell.document.getText(), input.content, this.getExtensionSettings().maxOutputSize) +
+      describeFollowingExecution(input, 'cell');
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<ModifyNotebookCellContentInput>, token: vscode.CancellationToken) {
     try {
-      const { cell_index, content, noexec } = options.input;
-      if (cell_index === undefined || !content) {
-        throw new Error('Missing required parameters: cell_index and content');
-      }
+      const { notebook, content, noexec, execution_mode, background, include_images } = options.input;
 
       const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
       const result = await NotebookService.modifyCellContent(
-        (cellCount) => {
-          if (cell_index < 0 || cell_index >= cellCount) {
-            throw new Error(`Cell index ${cell_index} is out of bounds (0-${cellCount - 1})`);
-          }
-          return cell_index;
-        },
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellIndex(nb, cellCount, options.input),
         content,
         noexec,
-        settings.maxOutputSize,
-        settings.timeoutSeconds
+        { ...settings, mode: execution_mode, background, images },
+        token
       );
-      return this.createToolResult(result);
+      return this.createToolResult(result, false, images);
     } catch (error) {
       return this.createToolResult(`Error modifying cell content: ${this.formatError(error)}`, true);
     }
   }
 }
 
-interface ExecuteNotebookCellsInput {
-  start_index: number;
-  stop_index: number;
+interface PatchNotebookCellInput extends NotebookTargetInput, VersionGuardInput, CellTargetInput, ImageOutputInput {
+  edits?: SearchReplaceBlock[];
+  diff?: string;
+  noexec?: boolean;
+  execution_mode?: ExecutionMode;
+  background?: boolean;
+}
+
+class PatchNotebookCellTool extends BaseNotebookTool<PatchNotebookCellInput> {
+  name = 'patch_notebook_cell';
+  displayName = 'Patch Notebook Cell';
+  mutating = true;
+
+  protected getImpact(input: PatchNotebookCellInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: !input.noexec };
+  }
+
+  protected async describeInvocation(input: PatchNotebookCellInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const cell = requireCell(nb, input);
+    const { source } = applyCellPatch(cell.document.getText(), { blocks: input.edits, diff: input.diff });
+    return `Patch the source of cell ${cell.index} of ${nb.uri.toString()}:\n\n` +
+      previewSourceChange(cell.document.getText(), source, this.getExtensionSettings().maxOutputSize) +
+      describeFollowingExecution(input, 'cell');
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<PatchNotebookCellInput>, token: vscode.CancellationToken) {
+    try {
+      const { notebook, edits, diff, noexec, execution_mode, background, include_images } = options.input;
+
+      const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
+      const result = await NotebookService.patchCell(
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellIndex(nb, cellCount, options.input),
+        { blocks: edits, diff },
+        noexec,
+        { ...settings, mode: execution_mode, background, images },
+        token
+      );
+      return this.createToolResult(result, false, images);
+    } catch (error) {
+      return this.createToolResult(`Error patching cell: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface ExecuteNotebookCellsInput extends NotebookTargetInput, CellRangeInput, ImageOutputInput {
+  execution_mode?: ExecutionMode;
+  interrupt_on_timeout?: boolean;
+  background?: boolean;
+}
+
+// Resolves the requested range of an execution, a missing bound extends to the start or end of the notebook
+function requireExecutionRange(notebook: vscode.NotebookDocument, cellCount: number, input: CellRangeInput) {
+  const range = resolveCellRange(notebook, input);
+  const startIndex = range.startIndex ?? 0;
+  const stopIndex = range.stopIndex ?? cellCount;
+  checkCellRange(startIndex, stopIndex, cellCount, cellRangeFields(input));
+  return { startIndex, stopIndex };
 }
 
 class ExecuteNotebookCellsTool extends BaseNotebookTool<ExecuteNotebookCellsInput> {
   name = 'execute_notebook_cells';
   displayName = 'Execute Notebook Cells';
+  mutating = true;
+
+  protected getImpact(_input: ExecuteNotebookCellsInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: true };
+  }
+
+  protected async describeInvocation(input: ExecuteNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const range = requireExecutionRange(nb, nb.cellCount, input);
+    const { startIndex, stopIndex } = resolveExecutionRange(input.execution_mode ?? 'stop_on_error', range.startIndex, range.stopIndex, nb.cellCount);
+    const settings = this.getExtensionSettings();
+    return `Execute cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewExecution(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), settings.maxOutputSize, settings.honorCellTags);
+  }
 
-  async invoke(options: vscode.LanguageModelToolInvocationOptions<ExecuteNotebookCellsInput>, _token: vscode.CancellationToken) {
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<ExecuteNotebookCellsInput>, token: vscode.CancellationToken) {
     try {
-      const { start_index, stop_index } = options.input;
-      if (start_index === undefined || stop_index === undefined) {
-        throw new Error('Missing required parameters: start_index and stop_index');
+      const { notebook, start_index, stop_index, start_cell_id, end_cell_id, execution_mode = 'stop_on_error', interrupt_on_timeout, background, include_images } = options.input;
+      // The whole-notebook modes imply the start or stop of the range
+      if (start_index === undefined && start_cell_id === undefined && execution_mode !== 'run_all' && execution_mode !== 'run_until') {
+        throw new ToolError('missing_parameter', `Missing required parameter for execution mode ${execution_mode}: start_index or start_cell_id`, 'start_index');
+      }
+      if (stop_index === undefined && end_cell_id === undefined && execution_mode !== 'run_all' && execution_mode !== 'run_from_here') {
+        throw new ToolError('missing_parameter', `Missing required parameter for execution mode ${execution_mode}: stop_index or end_cell_id`, 'stop_index');
       }
 
       const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
       const result = await NotebookService.executeCells(
-        (cellCount) => {
-          if (start_index < 0 || start_index >= cellCount) {
-            throw new Error(`Start index ${start_index} is out of bounds (0-${cellCount - 1})`);
-          }
-          if (stop_index <= start_index || stop_index > cellCount) {
-            throw new Error(`End index ${stop_index} is invalid. Must be greater than start index ${start_index} and not greater than ${cellCount}`);
-          }
-          return { startIndex: start_index, stopIndex: stop_index };
+        notebook,
+        (cellCount, nb) => requireExecutionRange(nb, cellCount, options.input),
+        {
+          ...settings,
+          mode: execution_mode,
+          interruptOnTimeout: interrupt_on_timeout ?? settings.interruptOnTimeout,
+          background,
+          images
         },
-        settings.maxOutputSize,
-        settings.timeoutSeconds
+        token
       );
-      return this.createToolResult(result);
+      return this.createToolResult(result, false, images);
     } catch (error) {
       return this.createToolResult(`Error executing cells: ${this.formatError(error)}`, true);
     }
   }
 }
 
-interface DeleteNotebookCellsInput {
-  start_index: number;
-  stop_index: number;
+interface EvaluateInKernelInput extends NotebookTargetInput, ImageOutputInput {
+  code: string;
+  interrupt_on_timeout?: boolean;
 }
 
+class EvaluateInKernelTool extends BaseNotebookTool<EvaluateInKernelInput> {
+  name = 'evaluate_in_kernel';
+  displayName = 'Evaluate in Kernel';
+
+  protected getImpact(_input: EvaluateInKernelInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: true };
+  }
+
+  protected async describeInvocation(input: EvaluateInKernelInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const language = String(nb.metadata?.metadata?.kernelspec?.language ?? '').toLowerCase();
+    return `Evaluate in the kernel of ${nb.uri.toString()}:\n\n${codeBlock(input.code ?? '', language)}`;
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<EvaluateInKernelInput>, token: vscode.CancellationToken) {
+    try {
+      const { notebook, code, interrupt_on_timeout, include_images } = options.input;
+      const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
+      const result = await NotebookService.evaluate(
+        notebook,
+        code,
+        {
+          ...settings,
+          interruptOnTimeout: interrupt_on_timeout ?? settings.interruptOnTimeout,
+          images
+        },
+        token
+      );
+      return this.createToolResult(result, false, images);
+    } catch (error) {
+      return this.createToolResult(`Error evaluating code: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface DeleteNotebookCellsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput {}
+
 class DeleteNotebookCellsTool extends BaseNotebookTool<DeleteNotebookCellsInput> {
   name = 'delete_notebook_cells';
   displayName = 'Delete Notebook Cells';
+  mutating = true;
+
+  protected getImpact(_input: DeleteNotebookCellsInput): InvocationImpact {
+    return { changes: true, destructive: true, executes: false };
+  }
+
+  protected async describeInvocation(input: DeleteNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRange(nb, nb.cellCount, input);
+    return `Delete cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewCells(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), this.getExtensionSettings().maxOutputSize);
+  }
 
   async invoke(options: vscode.LanguageModelToolInvocationOptions<DeleteNotebookCellsInput>, _token: vscode.CancellationToken) {
     try {
-      const { start_index, stop_index } = options.input;
-      if (start_index === undefined || stop_index === undefined) {
-        throw new Error('Missing required parameters: start_index and stop_index');
-      }
-
       const result = await NotebookService.deleteCells(
-        (cellCount) => {
-          if (start_index < 0 || start_index >= cellCount) {
-            throw new Error(`Start index ${start_index} is out of bounds (0-${cellCount - 1})`);
-          }
-          if (stop_index <= start_index || stop_index > cellCount) {
-            throw new Error(`End index ${stop_index} is invalid. Must be greater than start index ${start_index} and not greater than ${cellCount}`);
-          }
-          return { startIndex: start_index, stopIndex: stop_index };
-        }
+        options.input.notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRange(nb, cellCount, options.input)
       );
       return this.createToolResult(result);
     } catch (error) {
@@ -268,13 +778,354 @@ class DeleteNotebookCellsTool extends BaseNotebookTool<DeleteNotebookCellsInput>
   }
 }
 
-class SaveNotebookTool extends BaseNotebookTool<void> {
+interface ClearNotebookOutputsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput, CellTargetInput {}
+
+// Resolves the cells whose outputs are cleared, all cells without a cell or range
+function requireClearedRange(notebook: vscode.NotebookDocument, cellCount: number, input: ClearNotebookOutputsInput) {
+  const { start_index, stop_index, start_cell_id, end_cell_id, cell_index, cell_id } = input;
+  if ([start_index, stop_index, start_cell_id, end_cell_id, cell_index, cell_id].every(value => value === undefined)) {
+    return { startIndex: 0, stopIndex: cellCount };
+  }
+  return requireCellRangeOrCell(notebook, cellCount, input);
+}
+
+class ClearNotebookOutputsTool extends BaseNotebookTool<ClearNotebookOutputsInput> {
+  name = 'clear_notebook_outputs';
+  displayName = 'Clear Notebook Outputs';
+  mutating = true;
+
+  protected getImpact(_input: ClearNotebookOutputsInput): InvocationImpact {
+    return { changes: true, destructive: true, executes: false };
+  }
+
+  protected async describeInvocation(input: ClearNotebookOutputsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireClearedRange(nb, nb.cellCount, input);
+    const cells = nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)).filter(cell => cell.outputs.length > 0);
+    if (cells.length === 0) {
+      return `Clear the outputs of cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}, none of which has outputs.`;
+    }
+    return `Clear the outputs of ${nb.uri.toString()}:\n\n` +
+      cells.map(cell => `- Cell ${cell.index}: ${cell.outputs.length} output${cell.outputs.length !== 1 ? 's' : ''}`).join('\n');
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<ClearNotebookOutputsInput>, _token: vscode.CancellationToken) {
+    try {
+      const input = options.input ?? {};
+      const result = await NotebookService.clearOutputs(
+        input.notebook,
+        this.getExpectedVersion(input),
+        (cellCount, nb) => requireClearedRange(nb, cellCount, input)
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error clearing outputs: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface MoveNotebookCellsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput {
+  to_index: number;
+}
+
+class MoveNotebookCellsTool extends BaseNotebookTool<MoveNotebookCellsInput> {
+  name = 'move_notebook_cells';
+  displayName = 'Move Notebook Cells';
+  mutating = true;
+
+  protected async describeInvocation(input: MoveNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRange(nb, nb.cellCount, input);
+    return `Move cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()} to position ${input.to_index}:\n\n` +
+      previewMove(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.to_index);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<MoveNotebookCellsInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, to_index } = options.input;
+      const result = await NotebookService.moveCells(
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRange(nb, cellCount, options.input),
+        to_index
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error moving cells: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface SplitNotebookCellInput extends NotebookTargetInput, VersionGuardInput, CellTargetInput {
+  line: number;
+}
+
+class SplitNotebookCellTool extends BaseNotebookTool<SplitNotebookCellInput> {
+  name = 'split_notebook_cell';
+  displayName = 'Split Notebook Cell';
+  mutating = true;
+
+  protected async describeInvocation(input: SplitNotebookCellInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const cell = requireCell(nb, input);
+    return `Split cell ${cell.index} of ${nb.uri.toString()} at line ${input.line}` +
+      (cell.outputs.length > 0 ? `, clearing its outputs` : '') + `:\n\n` +
+      previewSplit(cell, input.line, this.getExtensionSettings().maxOutputSize);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<SplitNotebookCellInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, line } = options.input;
+      const result = await NotebookService.splitCell(
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellIndex(nb, cellCount, options.input),
+        line
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error splitting cell: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface MergeNotebookCellsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput {}
+
+class MergeNotebookCellsTool extends BaseNotebookTool<MergeNotebookCellsInput> {
+  name = 'merge_notebook_cells';
+  displayName = 'Merge Notebook Cells';
+  mutating = true;
+
+  protected async describeInvocation(input: MergeNotebookCellsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRange(nb, nb.cellCount, input);
+    return `Merge cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewMerge(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), this.getExtensionSettings().maxOutputSize);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<MergeNotebookCellsInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await NotebookService.mergeCells(
+        options.input.notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRange(nb, cellCount, options.input)
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error merging cells: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface ChangeNotebookCellTypeInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput, CellTargetInput {
+  cell_type?: string;
+  language_id?: string;
+}
+
+class ChangeNotebookCellTypeTool extends BaseNotebookTool<ChangeNotebookCellTypeInput> {
+  name = 'change_notebook_cell_type';
+  displayName = 'Change Notebook Cell Type';
+  mutating = true;
+
+  // Code cells turned into markdown lose their outputs
+  protected getImpact(input: ChangeNotebookCellTypeInput): InvocationImpact {
+    return { changes: true, destructive: input.cell_type === 'markdown', executes: false };
+  }
+
+  protected async describeInvocation(input: ChangeNotebookCellTypeInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRangeOrCell(nb, nb.cellCount, input);
+    return `Change the type of cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewTypeChange(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.cell_type, input.language_id);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<ChangeNotebookCellTypeInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, cell_type, language_id } = options.input;
+      const result = await NotebookService.changeCellType(
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRangeOrCell(nb, cellCount, options.input),
+        cell_type,
+        language_id
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error changing cell type: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface GetCellMetadataInput extends NotebookTargetInput, CellTargetInput {}
+
+class GetCellMetadataTool extends BaseNotebookTool<GetCellMetadataInput> {
+  name = 'get_cell_metadata';
+  displayName = 'Get Cell Metadata';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetCellMetadataInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook } = options.input;
+      const result = await NotebookService.getCellMetadata(notebook, (cellCount, nb) => requireCellIndex(nb, cellCount, options.input));
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error getting cell metadata: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface SetCellMetadataInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput, CellTargetInput {
+  metadata: Record<string, unknown>;
+  replace?: boolean;
+}
+
+class SetCellMetadataTool extends BaseNotebookTool<SetCellMetadataInput> {
+  name = 'set_cell_metadata';
+  displayName = 'Set Cell Metadata';
+  mutating = true;
+
+  protected getImpact(input: SetCellMetadataInput): InvocationImpact {
+    return { changes: true, destructive: !!input.replace, executes: false };
+  }
+
+  protected async describeInvocation(input: SetCellMetadataInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRangeOrCell(nb, nb.cellCount, input);
+    return `${input.replace ? 'Replace' : 'Update'} the metadata of cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewCellMetadataChange(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.metadata, !!input.replace, this.getExtensionSettings().maxOutputSize);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<SetCellMetadataInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, metadata, replace } = options.input;
+      const result = await NotebookService.setCellMetadata(
+        notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRangeOrCell(nb, cellCount, options.input),
+        metadata,
+        replace
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error setting cell metadata: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface CellTagsInput extends NotebookTargetInput, VersionGuardInput, CellRangeInput, CellTargetInput {
+  tags: string[];
+}
+
+class AddCellTagsTool extends BaseNotebookTool<CellTagsInput> {
+  name = 'add_cell_tags';
+  displayName = 'Add Cell Tags';
+  mutating = true;
+
+  protected async describeInvocation(input: CellTagsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRangeOrCell(nb, nb.cellCount, input);
+    return `Add tags to cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewTagChange(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.tags);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<CellTagsInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await NotebookService.updateCellTags(
+        options.input.notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRangeOrCell(nb, cellCount, options.input),
+        options.input.tags
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error adding cell tags: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class RemoveCellTagsTool extends BaseNotebookTool<CellTagsInput> {
+  name = 'remove_cell_tags';
+  displayName = 'Remove Cell Tags';
+  mutating = true;
+
+  protected async describeInvocation(input: CellTagsInput) {
+    const nb = await resolveNotebook(input.notebook);
+    const { startIndex, stopIndex } = requireCellRangeOrCell(nb, nb.cellCount, input);
+    return `Remove tags from cells ${startIndex} to ${stopIndex - 1} of ${nb.uri.toString()}:\n\n` +
+      previewTagChange(nb.getCells(new vscode.NotebookRange(startIndex, stopIndex)), input.tags, true);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<CellTagsInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await NotebookService.updateCellTags(
+        options.input.notebook,
+        this.getExpectedVersion(options.input),
+        (cellCount, nb) => requireCellRangeOrCell(nb, cellCount, options.input),
+        options.input.tags,
+        true
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error removing cell tags: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class GetNotebookMetadataTool extends BaseNotebookTool<NotebookTargetInput> {
+  name = 'get_notebook_metadata';
+  displayName = 'Get Notebook Metadata';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await NotebookService.getNotebookMetadata(options.input?.notebook);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error getting notebook metadata: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface SetNotebookMetadataInput extends NotebookTargetInput, VersionGuardInput {
+  metadata: Record<string, unknown>;
+  replace?: boolean;
+}
+
+class SetNotebookMetadataTool extends BaseNotebookTool<SetNotebookMetadataInput> {
+  name = 'set_notebook_metadata';
+  displayName = 'Set Notebook Metadata';
+  mutating = true;
+
+  protected getImpact(input: SetNotebookMetadataInput): InvocationImpact {
+    return { changes: true, destructive: !!input.replace, executes: false };
+  }
+
+  protected async describeInvocation(input: SetNotebookMetadataInput) {
+    const nb = await resolveNotebook(input.notebook);
+    return `${input.replace ? 'Replace' : 'Update'} the metadata of ${nb.uri.toString()}:\n\n` +
+      previewMetadataChange(nb.metadata?.metadata ?? {}, input.metadata, !!input.replace, this.getExtensionSettings().maxOutputSize);
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<SetNotebookMetadataInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, metadata, replace } = options.input;
+      const result = await NotebookService.setNotebookMetadata(notebook, this.getExpectedVersion(options.input), metadata, replace);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error setting notebook metadata: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class SaveNotebookTool extends BaseNotebookTool<NotebookTargetInput> {
   name = 'save_notebook';
   displayName = 'Save Notebook';
 
-  async invoke(_options: vscode.LanguageModelToolInvocationOptions<void>, _token: vscode.CancellationToken) {
+  protected getImpact(_input: NotebookTargetInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
     try {
-      const result = await NotebookService.saveNotebook();
+      const result = await NotebookService.saveNotebook(options.input?.notebook);
       return this.createToolResult(result);
     } catch (error) {
       return this.createToolResult(`Error saving notebook: ${this.formatError(error)}`, true);
@@ -282,10 +1133,106 @@ class SaveNotebookTool extends BaseNotebookTool<void> {
   }
 }
 
+interface CreateNotebookCheckpointInput extends NotebookTargetInput {
+  label?: string;
+}
+
+class CreateNotebookCheckpointTool extends BaseNotebookTool<CreateNotebookCheckpointInput> {
+  name = 'create_notebook_checkpoint';
+  displayName = 'Create Notebook Checkpoint';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<CreateNotebookCheckpointInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, label } = options.input ?? {};
+      const result = await NotebookCheckpoints.create(notebook, label, this.getExtensionSettings().maxCheckpoints);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error creating checkpoint: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class ListNotebookCheckpointsTool extends BaseNotebookTool<NotebookTargetInput> {
+  name = 'list_notebook_checkpoints';
+  displayName = 'List Notebook Checkpoints';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await NotebookCheckpoints.list(options.input?.notebook);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error listing checkpoints: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface NotebookCheckpointInput extends NotebookTargetInput {
+  checkpoint_id: number;
+}
+
+interface RestoreNotebookCheckpointInput extends NotebookCheckpointInput, VersionGuardInput {}
+
+class RestoreNotebookCheckpointTool extends BaseNotebookTool<RestoreNotebookCheckpointInput> {
+  name = 'restore_notebook_checkpoint';
+  displayName = 'Restore Notebook Checkpoint';
+
+  protected getImpact(_input: RestoreNotebookCheckpointInput): InvocationImpact {
+    return { changes: true, destructive: true, executes: false };
+  }
+
+  protected async describeInvocation(input: RestoreNotebookCheckpointInput) {
+    const changes = await NotebookCheckpoints.diff(input.notebook, input.checkpoint_id, this.getExtensionSettings().maxOutputSize);
+    return `Restore checkpoint ${input.checkpoint_id}, rolling back the changes below. The current state is saved as a new checkpoint first.\n\n${changes}`;
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<RestoreNotebookCheckpointInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, checkpoint_id } = options.input;
+      const result = await NotebookCheckpoints.restore(
+        notebook,
+        checkpoint_id,
+        this.getExpectedVersion(options.input),
+        this.getExtensionSettings().maxCheckpoints
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error restoring checkpoint: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class DiffNotebookCheckpointTool extends BaseNotebookTool<NotebookCheckpointInput> {
+  name = 'diff_notebook_checkpoint';
+  displayName = 'Diff Notebook Checkpoint';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookCheckpointInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, checkpoint_id } = options.input;
+      const result = await NotebookCheckpoints.diff(notebook, checkpoint_id, this.getExtensionSettings().maxOutputSize);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error diffing checkpoint: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
 interface OpenNotebookInput {
   path: string;
 }
 
+// Describes a notebook opened by the open and create tools
+function describeOpenedNotebook(notebook: vscode.NotebookDocument) {
+  const kernelSpec = notebook.metadata?.metadata?.kernelspec;
+  return {
+    uri: notebook.uri.toString(),
+    notebookType: notebook.notebookType,
+    isDirty: notebook.isDirty,
+    kernelLanguage: kernelSpec?.language,
+    kernelName: kernelSpec ? `${kernelSpec.display_name} (${kernelSpec.name})` : undefined,
+    cellCount: notebook.cellCount
+  };
+}
+
 class OpenNotebookTool extends BaseNotebookTool<OpenNotebookInput> {
   name = 'open_notebook';
   displayName = 'Open Notebook';
@@ -294,21 +1241,16 @@ class OpenNotebookTool extends BaseNotebookTool<OpenNotebookInput> {
     try {
       const { path } = options.input;
       const notebookUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0].uri || vscode.Uri.file(''), path);
+      const exists = await vscode.workspace.fs.stat(notebookUri).then(() => true, () => false);
+      if (!exists) {
+        throw new ToolError('not_found', `Notebook not found: ${notebookUri.toString()}. Create it with create_notebook.`, 'path');
+      }
       const notebook = await vscode.workspace.openNotebookDocument(notebookUri);
-      const editor = await vscode.window.showNotebookDocument(notebook, { preview: false });
-      const kernelSpec = editor.notebook.metadata?.metadata?.kernelspec;
-      const notebookInfo = {
-        uri: notebook.uri.toString(),
-        notebookType: notebook.notebookType,
-        isDirty: notebook.isDirty,
-        kernelLanguage: kernelSpec?.language,
-        kernelName: kernelSpec ? `${kernelSpec.display_name} (${kernelSpec.name})` : undefined,
-        cellCount: notebook.cellCount
-      };
+      await vscode.window.showNotebookDocument(notebook, { preview: false });
       return this.createToolResult(JSON.stringify({
         status: 'success',
         message: `Notebook opened and activated: ${path}`,
-        notebook: notebookInfo
+        notebook: describeOpenedNotebook(notebook)
       }, null, 2));
     } catch (error) {
       return this.createToolResult(`Error opening notebook: ${this.formatError(error)}`, true);
@@ -316,6 +1258,266 @@ class OpenNotebookTool extends BaseNotebookTool<OpenNotebookInput> {
   }
 }
 
+interface CreateNotebookInput {
+  path: string;
+  kernelspec?: { name: string; display_name?: string; language?: string };
+  language?: string;
+  cells?: Array<{ content: string; cell_type?: string }>;
+  metadata?: Record<string, unknown>;
+  overwrite?: boolean;
+  kernel_id?: string;
+  extension_id?: string;
+}
+
+class CreateNotebookTool extends BaseNotebookTool<CreateNotebookInput> {
+  name = 'create_notebook';
+  displayName = 'Create Notebook';
+
+  protected getImpact(input: CreateNotebookInput): InvocationImpact {
+    return { changes: true, destructive: !!input.overwrite, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<CreateNotebookInput>, _token: vscode.CancellationToken) {
+    try {
+      const { path, kernelspec, language, cells, metadata, overwrite, kernel_id, extension_id } = options.input;
+      if (!path) {
+        throw new ToolError('invalid_value', 'path must not be empty', 'path');
+      }
+
+      const notebookUri = await NotebookService.createNotebookFile(path, { kernelspec, language, cells, metadata }, overwrite);
+      const notebook = await vscode.workspace.openNotebookDocument(notebookUri);
+      await vscode.window.showNotebookDocument(notebook, { preview: false });
+      const kernelSelection = kernel_id ? await KernelService.selectKernel(notebook.uri.toString(), kernel_id, extension_id) : undefined;
+      return this.createToolResult(JSON.stringify({
+        status: 'success',
+        message: `Notebook created, opened and activated: ${path}`,
+        notebook: describeOpenedNotebook(notebook),
+        kernelSelection
+      }, null, 2));
+    } catch (error) {
+      return this.createToolResult(`Error creating notebook: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface GetExecutionStatusInput extends NotebookTargetInput, ImageOutputInput {
+  job_id?: string;
+}
+
+class GetExecutionStatusTool extends BaseNotebookTool<GetExecutionStatusInput> {
+  name = 'get_execution_status';
+  displayName = 'Get Execution Status';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetExecutionStatusInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, job_id, include_images } = options.input;
+      const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
+      const result = await NotebookService.getExecutionStatus(job_id, notebook, { ...settings, images });
+      return this.createToolResult(result, false, images);
+    } catch (error) {
+      return this.createToolResult(`Error getting execution status: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface WaitForExecutionInput extends ImageOutputInput {
+  job_id: string;
+  timeout_seconds?: number;
+}
+
+class WaitForExecutionTool extends BaseNotebookTool<WaitForExecutionInput> {
+  name = 'wait_for_execution';
+  displayName = 'Wait for Execution';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<WaitForExecutionInput>, token: vscode.CancellationToken) {
+    try {
+      const { job_id, timeout_seconds, include_images } = options.input;
+      if (!job_id) {
+        throw new ToolError('invalid_value', 'job_id must not be empty, take it from the result of the background execution', 'job_id');
+      }
+
+      const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
+      const result = await NotebookService.waitForExecution(
+        job_id,
+        timeout_seconds ?? settings.timeoutSeconds,
+        { ...settings, images },
+        token
+      );
+      return this.createToolResult(result, false, images);
+    } catch (error) {
+      return this.createToolResult(`Error waiting for execution: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface CancelExecutionInput extends ImageOutputInput {
+  job_id: string;
+}
+
+class CancelExecutionTool extends BaseNotebookTool<CancelExecutionInput> {
+  name = 'cancel_execution';
+  displayName = 'Cancel Execution';
+
+  protected getImpact(_input: CancelExecutionInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<CancelExecutionInput>, _token: vscode.CancellationToken) {
+    try {
+      const { job_id, include_images } = options.input;
+      if (!job_id) {
+        throw new ToolError('invalid_value', 'job_id must not be empty, take it from the result of the background execution', 'job_id');
+      }
+
+      const settings = this.getExtensionSettings();
+      const images = this.createImageCollector(include_images);
+      const result = await NotebookService.cancelExecution(job_id, { ...settings, images });
+      return this.createToolResult(result, false, images);
+    } catch (error) {
+      return this.createToolResult(`Error cancelling execution: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface GetCellOutputInput extends NotebookTargetInput, CellTargetInput {
+  output_index?: number;
+  item_index?: number;
+  offset?: number;
+  length?: number;
+}
+
+class GetCellOutputTool extends BaseNotebookTool<GetCellOutputInput> {
+  name = 'get_cell_output';
+  displayName = 'Get Cell Output';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetCellOutputInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, output_index, item_index, offset, length } = options.input;
+
+      const settings = this.getExtensionSettings();
+      const result = await NotebookService.getCellOutput(
+        notebook,
+        (cellCount, nb) => requireCellIndex(nb, cellCount, options.input),
+        output_index,
+        item_index,
+        offset,
+        length ?? settings.maxOutputSize
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error getting cell output: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class InterruptNotebookKernelTool extends BaseNotebookTool<NotebookTargetInput> {
+  name = 'interrupt_notebook_kernel';
+  displayName = 'Interrupt Notebook Kernel';
+
+  protected getImpact(_input: NotebookTargetInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await KernelService.interruptKernel(options.input?.notebook);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error interrupting kernel: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class RestartNotebookKernelTool extends BaseNotebookTool<NotebookTargetInput> {
+  name = 'restart_notebook_kernel';
+  displayName = 'Restart Notebook Kernel';
+
+  protected getImpact(_input: NotebookTargetInput): InvocationImpact {
+    return { changes: true, destructive: true, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await KernelService.restartKernel(options.input?.notebook);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error restarting kernel: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface SelectNotebookKernelInput extends NotebookTargetInput {
+  kernel_id?: string;
+  extension_id?: string;
+}
+
+class SelectNotebookKernelTool extends BaseNotebookTool<SelectNotebookKernelInput> {
+  name = 'select_notebook_kernel';
+  displayName = 'Select Notebook Kernel';
+
+  protected getImpact(_input: SelectNotebookKernelInput): InvocationImpact {
+    return { changes: true, destructive: false, executes: false };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<SelectNotebookKernelInput>, _token: vscode.CancellationToken) {
+    try {
+      const { notebook, kernel_id, extension_id } = options.input;
+      const result = await KernelService.selectKernel(notebook, kernel_id, extension_id);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error selecting kernel: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+interface GetKernelVariablesInput extends NotebookTargetInput {
+  name_pattern?: string;
+  type?: string;
+  preview_length?: number;
+}
+
+class GetKernelVariablesTool extends BaseNotebookTool<GetKernelVariablesInput> {
+  name = 'get_kernel_variables';
+  displayName = 'Get Kernel Variables';
+
+  // Lists the variables by running introspection code in the kernel
+  protected getImpact(_input: GetKernelVariablesInput): InvocationImpact {
+    return { changes: false, destructive: false, executes: true };
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetKernelVariablesInput>, token: vscode.CancellationToken) {
+    try {
+      const { notebook, name_pattern, type, preview_length = 80 } = options.input ?? {};
+      const settings = this.getExtensionSettings();
+      const result = await KernelService.getVariables(
+        notebook,
+        { namePattern: name_pattern, type },
+        { ...settings, maxPreviewLength: preview_length },
+        token
+      );
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error getting kernel variables: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
+class ListNotebookKernelsTool extends BaseNotebookTool<NotebookTargetInput> {
+  name = 'list_notebook_kernels';
+  displayName = 'List Notebook Kernels';
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<NotebookTargetInput>, _token: vscode.CancellationToken) {
+    try {
+      const result = await KernelService.listKernels(options.input?.notebook);
+      return this.createToolResult(result);
+    } catch (error) {
+      return this.createToolResult(`Error listing kernels: ${this.formatError(error)}`, true);
+    }
+  }
+}
+
 export function activate(context: vscode.ExtensionContext) {
   console.log('Roo-NB extension activated');
 
@@ -323,20 +1525,70 @@ export function activate(context: vscode.ExtensionContext) {
   const tools = [
     new GetNotebookInfoTool(),
     new GetNotebookCellsTool(),
+    new GetCellOutputTool(),
     new InsertNotebookCellsTool(),
     new ReplaceNotebookCellsTool(),
     new ModifyNotebookCellContentTool(),
+    new PatchNotebookCellTool(),
     new ExecuteNotebookCellsTool(),
+    new EvaluateInKernelTool(),
     new DeleteNotebookCellsTool(),
+    new ClearNotebookOutputsTool(),
+    new MoveNotebookCellsTool(),
+    new SplitNotebookCellTool(),
+    new MergeNotebookCellsTool(),
+    new ChangeNotebookCellTypeTool(),
+    new GetCellMetadataTool(),
+    new SetCellMetadataTool(),
+    new AddCellTagsTool(),
+    new RemoveCellTagsTool(),
+    new GetNotebookMetadataTool(),
+    new SetNotebookMetadataTool(),
     new SaveNotebookTool(),
-    new OpenNotebookTool()
+    new CreateNotebookCheckpointTool(),
+    new ListNotebookCheckpointsTool(),
+    new RestoreNotebookCheckpointTool(),
+    new DiffNotebookCheckpointTool(),
+    new OpenNotebookTool(),
+    new CreateNotebookTool(),
+    new InterruptNotebookKernelTool(),
+    new RestartNotebookKernelTool(),
+    new SelectNotebookKernelTool(),
+    new ListNotebookKernelsTool(),
+    new GetKernelVariablesTool(),
+    new GetExecutionStatusTool(),
+    new WaitForExecutionTool(),
+    new CancelExecutionTool()
   ];
 
+  const storageUri = context.storageUri ?? context.globalStorageUri;
+  NotebookCheckpoints.initialize(storageUri);
+  context.subscriptions.push(
+    AuditLog.initialize(storageUri),
+    vscode.commands.registerCommand('roo-nb.showAuditLog', () => AuditLog.show()),
+    vscode.commands.registerCommand('roo-nb.exportAuditLog', async () => {
+      const uri = await AuditLog.export();
+      if (uri) {
+        vscode.window.showInformationMessage(`Roo NB audit log of this session exported to ${uri.fsPath}`);
+      }
+    })
+  );
   tools.forEach(tool => tool.register(context));
+  context.subscriptions.push(StaleCells.track());
 
   console.log('Roo-NB extension tools registered successfully');
+
+  // Other extensions can add variable listing for more kernel languages
+  return {
+    registerVariableProvider(provider: VariableProvider): vscode.Disposable {
+      const registration = VariableProviders.register(provider);
+      context.subscriptions.push(registration);
+      return registration;
+    }
+  };
 }
 
 export function deactivate() {
-  // No cleanup needed
+  // Stop waiting on background executions, their kernels are interrupted per roo-nb.interruptOnCancel
+  ExecutionJobs.cancelAll();
 }
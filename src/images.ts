@@ -0,0 +1,154 @@
+import * as vscode from "vscode"
+
+/**
+ * MIME types of image outputs returned to the language model, SVG images are shown as text since models don't take them
+ */
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg"]
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/**
+ * Options for collecting image outputs
+ */
+export interface ImageOptions {
+	/** Maximum size in bytes of an image returned to the model, larger ones are omitted */
+	maxImageBytes: number
+	/** Maximum width or height in pixels of an image returned to the model, larger ones are omitted, 0 for no limit */
+	maxImageDimension: number
+}
+
+/**
+ * An image output collected for the tool result
+ */
+export interface CollectedImage {
+	/** 1-based number the textual listing refers to the image by */
+	number: number
+	/** Index of the cell, undefined for outputs of scratch evaluations */
+	cellIndex?: number
+	outputIndex: number
+	itemIndex: number
+	mime: string
+	data: Uint8Array
+}
+
+/**
+ * Collects image outputs while cells are rendered, so they can be returned as data parts alongside the text
+ */
+export class ImageCollector {
+	readonly images: CollectedImage[] = []
+
+	constructor(private readonly options: ImageOptions) {}
+
+	/**
+	 * Adds an image output item
+	 *
+	 * @param item The output item, with one of the {@link IMAGE_MIME_TYPES}
+	 * @param cellIndex Index of the cell the output belongs to, undefined for outputs not kept in the notebook
+	 * @param outputIndex Index of the output within the cell
+	 * @param itemIndex Index of the item within the output
+	 * @returns A line for the textual listing, referencing the attached image or telling why it's omitted
+	 */
+	add(item: vscode.NotebookCellOutputItem, cellIndex: number | undefined, outputIndex: number, itemIndex: number): string {
+		const { maxImageBytes, maxImageDimension } = this.options
+		const data = decodeImageData(item)
+
+		// Images aren't resized here, the code producing them can render them smaller
+		const size = readImageSize(data, item.mime)
+		if (size && maxImageDimension > 0 && Math.max(size.width, size.height) > maxImageDimension) {
+			return `(Not shown) Image of ${size.width}x${size.height} pixels with MIME: ${item.mime}, exceeds the image dimension limit of ${maxImageDimension} pixels, render it smaller (e.g. with a lower dpi) to see it`
+		}
+		if (data.length > maxImageBytes) {
+			return `(Not shown) Image of ${data.length} bytes with MIME: ${item.mime}, exceeds the image size limit of ${maxImageBytes} bytes, render it smaller to see it`
+		}
+
+		const image: CollectedImage = {
+			number: this.images.length + 1,
+			cellIndex,
+			outputIndex,
+			itemIndex,
+			mime: item.mime,
+			data,
+		}
+		this.images.push(image)
+		return `Image #${image.number} with MIME: ${item.mime}, ${data.length} bytes${size ? `, ${size.width}x${size.height} pixels` : ""} (attached below)`
+	}
+
+	/**
+	 * Creates the result parts for the collected images, each preceded by a caption matching the textual listing
+	 */
+	toResultParts(): Array<vscode.LanguageModelTextPart | vscode.LanguageModelDataPart> {
+		const parts: Array<vscode.LanguageModelTextPart | vscode.LanguageModelDataPart> = []
+		for (const image of this.images) {
+			parts.push(
+				new vscode.LanguageModelTextPart(
+					`Image #${image.number}: ${image.cellIndex !== undefined ? `cell ${image.cellIndex}` : "evaluation"}, output ${image.outputIndex + 1}, item ${image.itemIndex + 1} (${image.mime})`,
+				),
+			)
+			parts.push(vscode.LanguageModelDataPart.image(image.data, image.mime))
+		}
+		return parts
+	}
+}
+
+/**
+ * Gets the binary data of an image output item, some renderers keep base64 text instead of decoded bytes
+ */
+function decodeImageData(item: vscode.NotebookCellOutputItem): Uint8Array {
+	const data = Buffer.from(item.data)
+	if (item.mime === "image/png" && data.subarray(0, 8).equals(PNG_SIGNATURE)) return item.data
+	if (item.mime === "image/jpeg" && data[0] === 0xff && data[1] === 0xd8) return item.data
+
+	const text = data.toString("ascii").trim()
+	if (/^[A-Za-z0-9+/=\s]+$/.test(text)) return Buffer.from(text, "base64")
+	return item.data
+}
+
+/**
+ * Reads the dimensions of a PNG image from its header
+ */
+function readPngSize(png: Uint8Array): { width: number; height: number } | undefined {
+	const data = Buffer.from(png.buffer, png.byteOffset, png.byteLength)
+	if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE) || data.toString("ascii", 12, 16) !== "IHDR") {
+		return undefined
+	}
+	return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+}
+
+/**
+ * Reads the dimensions of a JPEG image from its start of frame segment
+ */
+function readJpegSize(jpeg: Uint8Array): { width: number; height: number } | undefined {
+	const data = Buffer.from(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)
+	if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined
+	let offset = 2
+	while (offset + 4 <= data.length) {
+		if (data[offset] !== 0xff) return undefined
+		const marker = data[offset + 1]
+		// Fill bytes may precede a marker
+		if (marker === 0xff) {
+			offset++
+			continue
+		}
+		const length = data.readUInt16BE(offset + 2)
+		// Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC) which share their range
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			if (offset + 9 > data.length) return undefined
+			return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+		}
+		offset += 2 + length
+	}
+	return undefined
+}
+
+/**
+ * Reads the dimensions of a PNG or JPEG image
+ *
+ * @param data The image data
+ * @param mime The MIME type of the image
+ * @returns The dimensions, or undefined when the header can't be read
+ */
+export function readImageSize(data: Uint8Array, mime: string): { width: number; height: number } | undefined {
+	if (mime === "image/png") return readPngSize(data)
+	if (mime === "image/jpeg") return readJpegSize(data)
+	return undefined
+}
@@ -0,0 +1,124 @@
+import * as vscode from "vscode"
+import { ExecutionRun } from "./execution"
+
+// Finished jobs kept per notebook for status queries, older ones are forgotten
+const MAX_FINISHED_JOBS_PER_NOTEBOOK = 10
+
+/**
+ * A run of cells executing in the background, independent of the tool call that started it
+ */
+export interface ExecutionJob {
+	readonly id: string
+	readonly run: ExecutionRun
+	readonly startedAt: number
+	finishedAt?: number
+	/** Error that aborted the run, if any */
+	error?: unknown
+	/** Settles when the run finished, never rejects */
+	readonly done: Promise<void>
+	readonly cancellation: vscode.CancellationTokenSource
+}
+
+/**
+ * Registry of background execution jobs, tracked per notebook for the lifetime of the extension
+ */
+export class ExecutionJobs {
+	private static readonly jobsByNotebook = new Map<string, ExecutionJob[]>()
+	private static nextId = 1
+
+	/**
+	 * Starts a background job
+	 *
+	 * @param run The run the job performs, its records are updated as the execution proceeds
+	 * @param execute Performs the run, receives a token cancelled when the job is cancelled
+	 * @returns The started job
+	 */
+	static start(run: ExecutionRun, execute: (token: vscode.CancellationToken) => Promise<void>): ExecutionJob {
+		const cancellation = new vscode.CancellationTokenSource()
+		const job: ExecutionJob = {
+			id: `job-${ExecutionJobs.nextId++}`,
+			run,
+			startedAt: Date.now(),
+			cancellation,
+			done: execute(cancellation.token).then(
+				() => {
+					job.finishedAt = Date.now()
+				},
+				(error) => {
+					job.error = error
+					job.finishedAt = Date.now()
+					run.finished = true
+				},
+			),
+		}
+
+		const key = run.notebook.uri.toString()
+		const jobs = ExecutionJobs.jobsByNotebook.get(key) || []
+		jobs.push(job)
+		ExecutionJobs.jobsByNotebook.set(key, ExecutionJobs.prune(jobs))
+		return job
+	}
+
+	private static prune(jobs: ExecutionJob[]): ExecutionJob[] {
+		const finished = jobs.filter((job) => job.finishedAt !== undefined)
+		const excess = finished.length - MAX_FINISHED_JOBS_PER_NOTEBOOK
+		if (excess <= 0) return jobs
+		const forgotten = new Set(finished.slice(0, excess))
+		for (const job of forgotten) job.cancellation.dispose()
+		return jobs.filter((job) => !forgotten.has(job))
+	}
+
+	/**
+	 * Gets a job by its id
+	 */
+	static get(jobId: string): ExecutionJob | undefined {
+		for (const jobs of ExecutionJobs.jobsByNotebook.values()) {
+			const job = jobs.find((j) => j.id === jobId)
+			if (job) return job
+		}
+		return undefined
+	}
+
+	/**
+	 * Lists the known jobs of a notebook, oldest first
+	 */
+	static list(notebook: vscode.NotebookDocument): ExecutionJob[] {
+		return [...(ExecutionJobs.jobsByNotebook.get(notebook.uri.toString()) || [])]
+	}
+
+	/**
+	 * Waits for a job to finish
+	 *
+	 * @param job The job to wait for
+	 * @param timeoutMs Maximum milliseconds to wait
+	 * @param token Optional cancellation token that stops waiting, the job itself keeps running
+	 * @returns Whether the job finished before the timeout or cancellation
+	 */
+	static async wait(job: ExecutionJob, timeoutMs: number, token?: vscode.CancellationToken): Promise<boolean> {
+		if (job.finishedAt !== undefined) return true
+
+		let timer: NodeJS.Timeout | undefined
+		let cancellation: vscode.Disposable | undefined
+		const stopped = new Promise<boolean>((resolve) => {
+			timer = setTimeout(() => resolve(false), Math.max(0, timeoutMs))
+			cancellation = token?.onCancellationRequested(() => resolve(false))
+		})
+		try {
+			return await Promise.race([job.done.then(() => true), stopped])
+		} finally {
+			clearTimeout(timer)
+			cancellation?.dispose()
+		}
+	}
+
+	/**
+	 * Cancels all running jobs, e.g. when the extension is deactivated
+	 */
+	static cancelAll() {
+		for (const jobs of ExecutionJobs.jobsByNotebook.values()) {
+			for (const job of jobs) {
+				job.cancellation.cancel()
+			}
+		}
+	}
+}
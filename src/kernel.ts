@@ -0,0 +1,446 @@
+import * as vscode from "vscode"
+import { AuditLog } from "./audit"
+import { decodeErrorOutput, outputItemText } from "./outputs"
+import { ensureNotebookEditor, resolveNotebook } from "./resolve"
+import { ToolError } from "./validation"
+import { KernelVariable, parseVariables, VariableProviders } from "./variables"
+
+const JUPYTER_EXTENSION_ID = "ms-toolsai.jupyter"
+
+/**
+ * Kernel status as reported by the Jupyter extension
+ */
+export type KernelStatus =
+	| "unknown"
+	| "starting"
+	| "idle"
+	| "busy"
+	| "terminating"
+	| "restarting"
+	| "autorestarting"
+	| "dead"
+
+/**
+ * The subset of the Jupyter extension's kernel API we rely on
+ */
+export interface JupyterKernel {
+	readonly status: KernelStatus
+	readonly language: string
+	readonly onDidChangeStatus: vscode.Event<KernelStatus>
+	executeCode(
+		code: string,
+		token: vscode.CancellationToken,
+	): AsyncIterable<{ items: vscode.NotebookCellOutputItem[]; metadata?: Record<string, unknown> }>
+}
+
+interface JupyterApi {
+	readonly kernels?: {
+		getKernel(uri: vscode.Uri): Thenable<JupyterKernel | undefined>
+	}
+}
+
+/**
+ * Gets the Jupyter kernel attached to a notebook through the Jupyter extension's API
+ *
+ * @param notebook The notebook document
+ * @returns The kernel, or undefined when the Jupyter extension is missing or no kernel is started
+ * @throws A {@link ToolError} when the kernel API can not be accessed
+ */
+async function accessJupyterKernel(notebook: vscode.NotebookDocument): Promise<JupyterKernel | undefined> {
+	const extension = vscode.extensions.getExtension<JupyterApi>(JUPYTER_EXTENSION_ID)
+	if (!extension) return undefined
+	try {
+		const api = extension.isActive ? extension.exports : await extension.activate()
+		return await api?.kernels?.getKernel(notebook.uri)
+	} catch (error) {
+		// The user may have denied this extension access to Jupyter kernels
+		throw new ToolError(
+			"kernel_unavailable",
+			`The Jupyter kernel API is unavailable: ${error instanceof Error ? error.message : String(error)}. ` +
+				"Access to Jupyter kernels may have been denied to Roo NB, it can be granted with the Jupyter: Manage Access To Jupyter Kernels command.",
+		)
+	}
+}
+
+/**
+ * Gets the Jupyter kernel attached to a notebook, if the Jupyter extension is installed and a kernel is started
+ *
+ * A kernel API that can not be accessed is logged to the audit log, and taken as no kernel.
+ *
+ * @param notebook The notebook document
+ * @returns The kernel, or undefined when there is none or it can not be accessed
+ */
+export async function getJupyterKernel(notebook: vscode.NotebookDocument): Promise<JupyterKernel | undefined> {
+	try {
+		return await accessJupyterKernel(notebook)
+	} catch (error) {
+		AuditLog.noteWarning(error instanceof Error ? error.message : String(error))
+		return undefined
+	}
+}
+
+/**
+ * Gets the Jupyter kernel attached to a notebook, for operations that can't do without it
+ *
+ * @param notebook The notebook document
+ * @returns The kernel
+ * @throws A {@link ToolError} telling how to get a kernel when there is none, or that the kernel API is unavailable
+ */
+export async function requireJupyterKernel(notebook: vscode.NotebookDocument): Promise<JupyterKernel> {
+	const kernel = await accessJupyterKernel(notebook)
+	if (!kernel) {
+		throw new ToolError(
+			"kernel_unavailable",
+			`No started Jupyter kernel found for notebook ${notebook.uri.toString()}. This needs the Jupyter extension and a running kernel, execute a cell first to start it.`,
+		)
+	}
+	return kernel
+}
+
+/**
+ * Outcome of code executed through the kernel API, outside of any cell
+ */
+export interface KernelExecution {
+	outputs: vscode.NotebookCellOutput[]
+	/** Why the execution stopped being waited for before it completed */
+	stopped?: "timeout" | "cancelled"
+	/** Whether the kernel was interrupted because of a timeout or cancellation, otherwise the code keeps running */
+	interrupted: boolean
+	durationMs: number
+}
+
+/**
+ * Executes code through the kernel API, outside of any cell, so that nothing is kept in the notebook
+ *
+ * @param notebook The notebook document
+ * @param kernel The notebook's kernel
+ * @param code The code to execute
+ * @param options How long to wait (0 for no limit), and whether to interrupt the kernel when giving up
+ * @param token Optional cancellation token, cancelling stops waiting and returns the outputs so far
+ * @returns The outputs, and whether the execution completed. Outputs produced after a timeout or cancellation are
+ * dropped, and unless the kernel was interrupted the code keeps running in it
+ */
+export async function executeInKernel(
+	notebook: vscode.NotebookDocument,
+	kernel: JupyterKernel,
+	code: string,
+	options: { timeoutSeconds: number; interruptOnTimeout: boolean; interruptOnCancel: boolean },
+	token?: vscode.CancellationToken,
+): Promise<KernelExecution> {
+	// Outputs stream in until the execution completes, unless the timeout or cancellation comes first
+	const outputs: vscode.NotebookCellOutput[] = []
+	const execution = new vscode.CancellationTokenSource()
+	const startTime = Date.now()
+	let timer: NodeJS.Timeout | undefined
+	let cancellation: vscode.Disposable | undefined
+	let stopped: "timeout" | "cancelled" | undefined
+	const stop = new Promise<"timeout" | "cancelled">((resolve) => {
+		if (options.timeoutSeconds > 0) timer = setTimeout(() => resolve("timeout"), options.timeoutSeconds * 1000)
+		cancellation = token?.onCancellationRequested(() => resolve("cancelled"))
+	})
+	const iterator = kernel.executeCode(code, execution.token)[Symbol.asyncIterator]()
+	try {
+		for (;;) {
+			const next = await Promise.race([iterator.next(), stop])
+			if (typeof next === "string") {
+				stopped = next
+				break
+			}
+			if (next.done) break
+			outputs.push(new vscode.NotebookCellOutput(next.value.items, next.value.metadata))
+		}
+	} finally {
+		clearTimeout(timer)
+		cancellation?.dispose()
+		if (stopped) {
+			// Outputs are no longer consumed once given up on, whether or not the kernel is interrupted
+			execution.cancel()
+			void Promise.resolve(iterator.return?.()).catch(() => {})
+		}
+		execution.dispose()
+	}
+
+	let interrupted = false
+	if (stopped && (stopped === "timeout" ? options.interruptOnTimeout : options.interruptOnCancel)) {
+		await interruptNotebookKernel(notebook)
+		interrupted = true
+	}
+	return { outputs, stopped, interrupted, durationMs: Date.now() - startTime }
+}
+
+async function hasCommand(command: string): Promise<boolean> {
+	const commands = await vscode.commands.getCommands(true)
+	return commands.includes(command)
+}
+
+/**
+ * Interrupts the kernel of a notebook, stopping the running cell and cancelling queued ones
+ *
+ * Uses the Jupyter extension's interrupt command when available, otherwise cancels the notebook's execution through
+ * VS Code's own command.
+ *
+ * @param notebook The notebook document
+ */
+export async function interruptNotebookKernel(notebook: vscode.NotebookDocument): Promise<void> {
+	if (await hasCommand("jupyter.interruptkernel")) {
+		await vscode.commands.executeCommand("jupyter.interruptkernel", { notebookEditor: { notebookUri: notebook.uri } })
+		return
+	}
+
+	await ensureNotebookEditor(notebook)
+	await vscode.commands.executeCommand("notebook.cancelExecution", notebook.uri)
+}
+
+/**
+ * Lists the cells of a notebook currently executing, i.e. started but not finished
+ */
+function runningCells(notebook: vscode.NotebookDocument): vscode.NotebookCell[] {
+	return notebook
+		.getCells()
+		.filter(
+			(cell) =>
+				cell.executionSummary?.timing?.startTime !== undefined &&
+				cell.executionSummary.timing.endTime === undefined,
+		)
+}
+
+/**
+ * Describes the kernel state of a notebook, whether a controller is attached and whether it is busy
+ *
+ * @param notebook The notebook document
+ * @returns A markdown bullet list
+ */
+export async function describeKernelState(notebook: vscode.NotebookDocument): Promise<string> {
+	const kernel = await getJupyterKernel(notebook)
+	const running = runningCells(notebook)
+
+	let result = ""
+	if (kernel) {
+		result += `- **Controller Attached?**: true\n`
+		result += `- **Kernel Status**: ${kernel.status}\n`
+	} else if (running.length > 0) {
+		result += `- **Controller Attached?**: true\n`
+	} else {
+		result += `- **Controller Attached?**: unknown (no started Jupyter kernel found, a kernel may still be selected)\n`
+	}
+	result += `- **Busy?**: ${kernel?.status === "busy" || running.length > 0}\n`
+	if (running.length > 0) {
+		result += `- **Running Cells**: ${running.map((cell) => cell.index).join(", ")}\n`
+	}
+	return result
+}
+
+/**
+ * Class providing kernel-related operations for the notebook tools
+ */
+export class KernelService {
+	/**
+	 * Interrupts the kernel of the target notebook
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string indicating success or failure
+	 */
+	static async interruptKernel(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const running = runningCells(notebook)
+
+		await interruptNotebookKernel(notebook)
+
+		let result = `Interrupted the kernel of notebook ${notebook.uri.toString()}.`
+		if (running.length > 0) {
+			result += ` Cells running at the time: ${running.map((cell) => cell.index).join(", ")}.`
+		} else {
+			result += ` No cell was observed running.`
+		}
+		return result
+	}
+
+	/**
+	 * Restarts the kernel of the target notebook, all kernel state (variables, imports) is lost
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string indicating success or failure
+	 */
+	static async restartKernel(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		if (!(await hasCommand("jupyter.restartkernel"))) {
+			throw new ToolError("kernel_unavailable", "Restarting kernels requires the Jupyter extension (ms-toolsai.jupyter).")
+		}
+		await vscode.commands.executeCommand("jupyter.restartkernel", { notebookEditor: { notebookUri: notebook.uri } })
+
+		const kernel = await getJupyterKernel(notebook)
+		let result = `Restarted the kernel of notebook ${notebook.uri.toString()}. All kernel state is lost, re-run cells as needed.`
+		if (kernel) {
+			result += `\n\nKernel status: ${kernel.status}`
+		}
+		return result
+	}
+
+	/**
+	 * Selects the kernel (notebook controller) of the target notebook
+	 *
+	 * Without a kernel id, the kernel picker is shown for the user to choose. The notebook is brought to the front,
+	 * since VS Code selects kernels for the active notebook editor.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param kernelId Optional id of the notebook controller to select
+	 * @param extensionId Id of the extension providing the controller (default: the Jupyter extension)
+	 * @returns A string indicating success or failure
+	 */
+	static async selectKernel(
+		notebookRef: string | undefined,
+		kernelId?: string,
+		extensionId: string = JUPYTER_EXTENSION_ID,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		await vscode.window.showNotebookDocument(notebook, { preview: false })
+
+		const selected = kernelId
+			? await vscode.commands.executeCommand<boolean>("notebook.selectKernel", { id: kernelId, extension: extensionId })
+			: await vscode.commands.executeCommand<boolean>("notebook.selectKernel")
+
+		let result = selected === false
+			? `No kernel was selected for notebook ${notebook.uri.toString()}.`
+			: `Kernel selection completed for notebook ${notebook.uri.toString()}.`
+		result += `\n\n## Kernel State\n${await describeKernelState(notebook)}`
+		return result
+	}
+
+	/**
+	 * Lists the live variables of the kernel of the target notebook
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param query Optional filters: a regular expression the names must match, a (partial) type name
+	 * @param options How long to wait for the kernel, whether to interrupt it when giving up, and the output limits
+	 * @param token Optional cancellation token
+	 * @returns A string containing a table of the variables
+	 */
+	static async getVariables(
+		notebookRef: string | undefined,
+		query: { namePattern?: string; type?: string },
+		options: {
+			maxOutputSize: number
+			maxPreviewLength: number
+			timeoutSeconds: number
+			interruptOnTimeout: boolean
+			interruptOnCancel: boolean
+		},
+		token?: vscode.CancellationToken,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		let namePattern: RegExp | undefined
+		if (query.namePattern !== undefined) {
+			try {
+				namePattern = new RegExp(query.namePattern)
+			} catch (error) {
+				throw new ToolError(
+					"invalid_value",
+					`Invalid name_pattern: ${error instanceof Error ? error.message : String(error)}`,
+					"name_pattern",
+				)
+			}
+		}
+
+		const kernel = await requireJupyterKernel(notebook)
+		const language: string = notebook.metadata?.metadata?.kernelspec?.language ?? kernel.language
+		const provider = VariableProviders.get(language)
+		if (!provider) {
+			throw new ToolError(
+				"unsupported",
+				`Listing variables is not supported for ${language} kernels, only for ${VariableProviders.languages().join(", ")}. Use evaluate_in_kernel to inspect variables instead.`,
+			)
+		}
+
+		const execution = await executeInKernel(notebook, kernel, provider.buildCode(options.maxPreviewLength), options, token)
+		if (execution.stopped) {
+			throw new Error(
+				execution.stopped === "timeout"
+					? `The kernel did not list its variables within ${options.timeoutSeconds} seconds, it may be busy running cells` +
+							(execution.interrupted ? ", the kernel was interrupted" : ", the listing is still queued or running in the kernel")
+					: "Listing the variables was cancelled" +
+							(execution.interrupted ? ", the kernel was interrupted" : ", the listing is still queued or running in the kernel"),
+			)
+		}
+		const items = execution.outputs.flatMap((output) => output.items)
+		const error = items.map(decodeErrorOutput).find((e) => e !== undefined)
+		if (error) {
+			throw new Error(`Listing the variables failed in the kernel: ${error.ename}: ${error.evalue}`)
+		}
+		const allVariables = parseVariables(items.map((item) => outputItemText(item) ?? "").join("\n"))
+
+		const typeFilter = query.type?.toLowerCase()
+		const variables = allVariables.filter(
+			(variable) =>
+				(!namePattern || namePattern.test(variable.name)) &&
+				(!typeFilter || variable.type.toLowerCase().includes(typeFilter)),
+		)
+
+		let result = `# Kernel Variables\n\nNotebook: ${notebook.uri.toString()}\nKernel language: ${language}\n\n`
+		if (variables.length === 0) {
+			result += allVariables.length === 0 ? `The kernel has no variables.` : `None of the ${allVariables.length} variables match the filters.`
+			return result
+		}
+
+		const cell = (text: string) => text.replace(/\s+/g, " ").replace(/\|/g, "\\|").trim()
+		const row = (variable: KernelVariable) =>
+			`| ${cell(variable.name)} | ${cell(variable.type)} | ${variable.shape ?? variable.length ?? ""} | ${cell(variable.preview ?? "")} |\n`
+		let table = `| Name | Type | Shape / Length | Preview |\n|---|---|---|---|\n`
+		let shown = 0
+		for (const variable of variables) {
+			const line = row(variable)
+			if (shown > 0 && table.length + line.length > options.maxOutputSize) break
+			table += line
+			shown++
+		}
+
+		result += `Showing ${shown} of ${variables.length} variables`
+		result += variables.length < allVariables.length ? ` matching the filters (${allVariables.length} in total):\n\n` : `:\n\n`
+		result += table
+		if (shown < variables.length) {
+			result += `\n${variables.length - shown} more variables are not shown, to stay within ${options.maxOutputSize} characters. Narrow down the list with name_pattern or type.`
+		}
+		return result
+	}
+
+	/**
+	 * Lists the kernels known for the open notebooks
+	 *
+	 * VS Code offers no API to enumerate the controllers available for a notebook, so this reports the kernelspecs
+	 * and state of the kernels in use by the open notebooks.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string listing the kernels
+	 */
+	static async listKernels(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		let result = `# Notebook Kernels\n\n`
+		result += `## Target Notebook\n`
+		result += `- **URI**: ${notebook.uri.toString()}\n`
+		const kernelSpec = notebook.metadata?.metadata?.kernelspec
+		if (kernelSpec) {
+			result += `- **Kernelspec**: ${kernelSpec.display_name} (${kernelSpec.name}), language: ${kernelSpec.language}\n`
+		}
+		result += await describeKernelState(notebook)
+		result += "\n"
+
+		const otherNotebooks = vscode.workspace.notebookDocuments.filter((nb) => nb !== notebook)
+		if (otherNotebooks.length > 0) {
+			result += `## Kernels of Other Open Notebooks\n`
+			for (const nb of otherNotebooks) {
+				const spec = nb.metadata?.metadata?.kernelspec
+				const kernel = await getJupyterKernel(nb)
+				result += `- ${nb.uri.toString()}: `
+				result += spec ? `${spec.display_name} (${spec.name}), language: ${spec.language}` : "no kernelspec"
+				result += kernel ? `, status: ${kernel.status}` : ""
+				result += "\n"
+			}
+			result += "\n"
+		}
+
+		result += `Use select_notebook_kernel with a controller id to switch kernels, or without one to let the user pick.`
+		return result
+	}
+}
@@ -0,0 +1,95 @@
+import * as vscode from "vscode"
+
+/** Tag of cells that executions skip */
+export const SKIP_EXECUTION_TAG = "skip-execution"
+
+/** Tag of cells expected to raise an error, which doesn't stop executions */
+export const RAISES_EXCEPTION_TAG = "raises-exception"
+
+/**
+ * Gets the nbformat metadata of a cell (tags, collapsed, jupyter.source_hidden, ...)
+ *
+ * VS Code keeps it under the `metadata` key of the cell metadata, next to the cell `id` and `execution_count`.
+ */
+export function getCellNbMetadata(cell: Pick<vscode.NotebookCell | vscode.NotebookCellData, "metadata">): Record<string, unknown> {
+	const metadata = cell.metadata?.metadata
+	return metadata && typeof metadata === "object" ? metadata : {}
+}
+
+/**
+ * Gets the tags of a cell
+ */
+export function getCellTags(cell: Pick<vscode.NotebookCell | vscode.NotebookCellData, "metadata">): string[] {
+	const tags = getCellNbMetadata(cell).tags
+	return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === "string") : []
+}
+
+/**
+ * Tells whether a cell has a tag
+ */
+export function hasCellTag(cell: Pick<vscode.NotebookCell | vscode.NotebookCellData, "metadata">, tag: string): boolean {
+	return getCellTags(cell).includes(tag)
+}
+
+/**
+ * Adds tags to, or removes tags from, a tag list
+ *
+ * @param current The current tags
+ * @param tags The tags to add or remove
+ * @param remove Whether to remove the tags instead of adding them
+ * @returns The updated tags, added ones follow the current ones without duplicates
+ */
+export function updateTagList(current: string[], tags: string[], remove: boolean = false): string[] {
+	return remove
+		? current.filter((tag) => !tags.includes(tag))
+		: [...current, ...tags.filter((tag, i) => !current.includes(tag) && tags.indexOf(tag) === i)]
+}
+
+/**
+ * Merges changes into metadata, keys set to null are removed
+ *
+ * @param metadata The current metadata
+ * @param changes The keys to set or, with a null value, remove
+ * @param replace Whether the changes replace the metadata as a whole, instead of being merged into it
+ * @returns The updated metadata
+ */
+export function mergeMetadata(
+	metadata: Record<string, unknown>,
+	changes: Record<string, unknown>,
+	replace: boolean = false,
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = replace ? {} : { ...metadata }
+	for (const [key, value] of Object.entries(changes)) {
+		if (value === null) {
+			delete merged[key]
+		} else {
+			merged[key] = value
+		}
+	}
+	return merged
+}
+
+/**
+ * Builds the cell metadata with updated nbformat metadata, the cell id and other VS Code keys are kept
+ *
+ * @param cell The cell
+ * @param nbMetadata The new nbformat metadata of the cell
+ * @returns The metadata to pass to `NotebookEdit.updateCellMetadata`
+ */
+export function withCellNbMetadata(
+	cell: vscode.NotebookCell,
+	nbMetadata: Record<string, unknown>,
+): Record<string, unknown> {
+	return { ...cell.metadata, metadata: nbMetadata }
+}
+
+/**
+ * Builds the cell metadata with updated tags, an empty tag list removes the `tags` key
+ *
+ * @param cell The cell
+ * @param tags The new tags of the cell
+ * @returns The metadata to pass to `NotebookEdit.updateCellMetadata`
+ */
+export function withCellTags(cell: vscode.NotebookCell, tags: string[]): Record<string, unknown> {
+	return withCellNbMetadata(cell, mergeMetadata(getCellNbMetadata(cell), { tags: tags.length > 0 ? tags : null }))
+}
@@ -1,18 +1,161 @@
 import * as vscode from "vscode"
+import { describeCellIds, ensureCellIds, getCellId, newCellId, randomCellId } from "./cellIds"
+import {
+	CellExecutionRecord,
+	CellExecutionTracker,
+	describeCellExecution,
+	formatIndexRanges,
+	ExecutionOptions,
+	ExecutionRun,
+	resolveExecutionRange,
+	summarizeExecution,
+} from "./execution"
+import { IMAGE_MIME_TYPES } from "./images"
+import { ExecutionJob, ExecutionJobs } from "./jobs"
+import { describeKernelState, executeInKernel, interruptNotebookKernel, requireJupyterKernel } from "./kernel"
+import {
+	CellError,
+	collectCellErrors,
+	decodeErrorOutput,
+	DEFAULT_OUTPUT_OPTIONS,
+	formatCellError,
+	isTextOutput,
+	OutputOptions,
+	outputItemText,
+	outputSizeLimits,
+	TruncationStrategy,
+	truncateText,
+} from "./outputs"
+import {
+	getCellNbMetadata,
+	getCellTags,
+	hasCellTag,
+	mergeMetadata,
+	SKIP_EXECUTION_TAG,
+	updateTagList,
+	withCellNbMetadata,
+	withCellTags,
+} from "./metadata"
+import { applyCellPatch, CellPatch } from "./patch"
+import { assertExecutionNotDenied, checkExecutionPolicy, executedCode } from "./policy"
+import { CellDefinition, mergeCellSources } from "./previews"
+import { CellQuery, selectCells } from "./query"
+import { assertNoNewPlaceholders } from "./redaction"
+import { ensureNotebookEditor, resolveNotebook } from "./resolve"
+import { ExecutionFlag, getExecutionFlags } from "./staleness"
+import { ToolError } from "./validation"
+import { NotebookVersions } from "./versions"
 
-function isTextOutput(item: vscode.NotebookCellOutputItem): boolean {
-	if (item.mime.startsWith("text/")) return true
+/**
+ * Describes which part of a truncated text is shown
+ */
+function describeTruncation(strategy: TruncationStrategy): string {
+	switch (strategy) {
+		case "head":
+			return "showing its beginning"
+		case "tail":
+			return "showing its end"
+		case "head_tail":
+			return "showing its beginning and end"
+	}
+}
+
+/**
+ * Explains an execution flag of a cell, for the agent to know what its outputs are worth
+ */
+function describeExecutionFlag(flag: ExecutionFlag): string {
+	switch (flag) {
+		case "stale":
+			return "Stale: the source changed since the cell was last executed, its outputs may not correspond to it"
+		case "out-of-order":
+			return "Out of order: a cell above was executed after this one, the outputs may reflect a different kernel state"
+		case "never-run":
+			return "Never run: the cell was not executed"
+	}
+}
 
-	if (item.mime === "application/vnd.code.notebook.stdout") return true
-	if (item.mime === "application/vnd.code.notebook.stderr") return true
+/**
+ * Shows outputs, in cells or from scratch evaluations
+ *
+ * @param outputs The outputs
+ * @param options Options controlling how outputs are shown, see {@link OutputOptions}
+ * @param execLabel The execution count labeling the error section
+ * @param cellIndex Index of the cell the outputs belong to, undefined for outputs not kept in the notebook
+ */
+function showOutputs(
+	outputs: readonly vscode.NotebookCellOutput[],
+	options: OutputOptions,
+	execLabel: string,
+	cellIndex?: number,
+): string {
+	const { maxOutputSize, truncation = "head_tail", images, maxTracebackFrames = 0 } = options
+	let result = ""
+	const errors: CellError[] = []
+
+	// Process each output
+	for (const [outputIndex, output] of outputs.entries()) {
+		try {
+			result += `#### Output with ${output.items.length} items\n\n`
+
+			// Try to extract textual content from outputs
+			for (let i = 0; i < output.items.length; i++) {
+				const item = output.items[i]
+				const error = decodeErrorOutput(item)
+				if (error) {
+					errors.push(error)
+					result += `${i + 1}. Error ${error.ename}: ${error.evalue} (see the Error section below)\n\n`
+				} else if (isTextOutput(item)) {
+					try {
+						const textContent = outputItemText(item) ?? ""
+
+						if (textContent.length > maxOutputSize) {
+							const truncated = truncateText(textContent, maxOutputSize, truncation)
+							result += `${i + 1}. Truncated text with MIME: ${item.mime}, full length: ${textContent.length} characters, ${describeTruncation(truncation)}. `
+							result +=
+								cellIndex !== undefined
+									? `Read the omitted ${truncated.omittedLength} characters with get_cell_output ` +
+										`(cell_index: ${cellIndex}, output_index: ${outputIndex}, item_index: ${i}, offset: ${truncated.omittedOffset}, length: ${truncated.omittedLength})\n\n`
+									: `The omitted ${truncated.omittedLength} characters are not kept, narrow down the evaluated code to see them.\n\n`
+							result += `\`\`\`\n${truncated.text}\n\`\`\`\n\n`
+						} else {
+							result += `${i + 1}. Text with MIME: ${item.mime}\n\n`
+							result += `\`\`\`\n${textContent}\n\`\`\`\n\n`
+						}
+					} catch (textErr) {
+						result += `> Error extracting text content: ${textErr instanceof Error ? textErr.message : String(textErr)}\n\n`
+					}
+				} else if (images && IMAGE_MIME_TYPES.includes(item.mime)) {
+					result += `${i + 1}. ${images.add(item, cellIndex, outputIndex, i)}\n\n`
+				} else {
+					result += `${i + 1}. (Not shown) ${item.data.length} bytes with MIME: ${item.mime}\n\n`
+				}
+			}
+		} catch (err) {
+			result += `> Error processing output: ${err instanceof Error ? err.message : String(err)}\n\n`
+		}
+	}
 
-	if (item.mime === "application/json") return true
-	if (item.mime === "application/javascript") return true
+	if (errors.length > 0) {
+		result += `### Error [${execLabel}]:\n\n`
+		for (const error of errors) {
+			result += formatCellError(error, maxOutputSize, maxTracebackFrames)
+		}
+	}
 
-	return false
+	return result
 }
 
-function showCell(cell: vscode.NotebookCell, maxOutputSize: number): string {
+/**
+ * Which parts of a cell are shown
+ */
+export type CellParts = "all" | "source" | "outputs"
+
+function showCell(
+	cell: vscode.NotebookCell,
+	options: OutputOptions,
+	parts: CellParts = "all",
+	includeMetadata: boolean = false,
+): string {
 	const cellType = cell.kind === vscode.NotebookCellKind.Markup ? "markdown" : "code"
 	let cellLanguageId = cell.document.languageId
 
@@ -23,7 +166,29 @@ function showCell(cell: vscode.NotebookCell, maxOutputSize: number): string {
 	} else {
 		result += cellType
 	}
-	result += `)\n\n`
+	result += `)`
+	const cellId = getCellId(cell)
+	if (cellId) {
+		result += ` [id: ${cellId}]`
+	}
+	const tags = getCellTags(cell)
+	if (tags.length > 0) {
+		result += ` [tags: ${tags.join(", ")}]`
+	}
+	const flags = getExecutionFlags(cell)
+	for (const flag of flags) {
+		result += ` [${flag}]`
+	}
+	result += `\n\n`
+	for (const flag of flags) {
+		result += `> ${describeExecutionFlag(flag)}.\n`
+	}
+	if (flags.length > 0) result += `\n`
+
+	const nbMetadata = getCellNbMetadata(cell)
+	if (includeMetadata && Object.keys(nbMetadata).length > 0) {
+		result += `### Metadata:\n\n\`\`\`json\n${JSON.stringify(nbMetadata, null, 2)}\n\`\`\`\n\n`
+	}
 
 	// Handle cell content
 	const cellContent = cell.document.getText()
@@ -33,135 +198,365 @@ function showCell(cell: vscode.NotebookCell, maxOutputSize: number): string {
 		if (cell.executionSummary?.executionOrder !== undefined) {
 			execLabel = String(cell.executionSummary.executionOrder)
 		}
-		result += `### In [${execLabel}]:\n\n\`\`\`${cellLanguageId}\n${cellContent}\n\`\`\`\n\n`
+		if (parts !== "outputs") {
+			result += `### In [${execLabel}]:\n\n\`\`\`${cellLanguageId}\n${cellContent}\n\`\`\`\n\n`
+		}
 
 		// Add output if available for code cells
-		if (cell.outputs.length > 0) {
+		if (parts !== "source" && cell.outputs.length > 0) {
 			result += `### Out [${execLabel}]:\n\n`
+			result += showOutputs(cell.outputs, options, execLabel, cell.index)
+		}
+	} else if (parts !== "outputs") {
+		// For markdown cells, just show the content without In/Out labels
+		result += `\`\`\`${cellLanguageId}\n${cellContent}\n\`\`\`\n\n`
+	}
 
-			// Process each output
-			for (const output of cell.outputs) {
-				try {
-					result += `#### Output with ${output.items.length} items\n\n`
-
-					// Try to extract textual content from outputs
-					for (let i = 0; i < output.items.length; i++) {
-						const item = output.items[i]
-						if (isTextOutput(item)) {
-							try {
-								const textDecoder = new TextDecoder()
-								const textContent = textDecoder.decode(item.data)
-
-								if (textContent.length > maxOutputSize) {
-									const truncatedText = textContent.substring(0, maxOutputSize - 3)
-									result += `${i + 1}. Truncated text with MIME: ${item.mime}, full length: ${textContent.length} characters\n\n`
-									result += `\`\`\`\n${truncatedText}...\n\`\`\`\n\n`
-								} else {
-									result += `${i + 1}. Text with MIME: ${item.mime}\n\n`
-									result += `\`\`\`\n${textContent}\n\`\`\`\n\n`
-								}
-							} catch (textErr) {
-								result += `> Error extracting text content: ${textErr instanceof Error ? textErr.message : String(textErr)}\n\n`
-							}
-						} else {
-							result += `${i + 1}. (Not shown) ${item.data.length} bytes with MIME: ${item.mime}\n\n`
-						}
-					}
-				} catch (err) {
-					result += `> Error processing output: ${err instanceof Error ? err.message : String(err)}\n\n`
+	return result
+}
+
+// How long to wait for cells to settle after interrupting the kernel
+const INTERRUPT_SETTLE_MS = 5000
+
+// How long a cancelled background job is given to stop, including its own interrupt of the kernel
+const CANCEL_SETTLE_MS = INTERRUPT_SETTLE_MS + 2000
+
+/**
+ * Requests execution of cells through the notebook's kernel controller, in one submission
+ */
+async function requestCellExecution(notebook: vscode.NotebookDocument, cells: vscode.NotebookCell[]) {
+	// Consecutive cells are submitted as one range
+	const ranges: Array<{ start: number; end: number }> = []
+	for (const cell of cells) {
+		const last = ranges[ranges.length - 1]
+		if (last && last.end === cell.index) {
+			last.end++
+		} else {
+			ranges.push({ start: cell.index, end: cell.index + 1 })
+		}
+	}
+	// The command needs an editor for the notebook even when it targets the document by URI
+	await ensureNotebookEditor(notebook)
+	await vscode.commands.executeCommand("notebook.cell.execute", { ranges, document: notebook.uri })
+}
+
+/**
+ * Performs a run of cells, updating the run's state as it proceeds
+ *
+ * Except in `continue` mode, the range is submitted to the controller at once, and the run ends at the first failing
+ * cell. In `continue` mode cells are submitted one by one, so a failing cell doesn't cancel those after it. Cells tagged
+ * `raises-exception` end a submission, so that the run goes on after them when they fail.
+ *
+ * @param tracker The tracker of the run's code cells, disposed when the run finishes
+ * @param run The run to perform
+ * @param options Options controlling the execution, see {@link ExecutionOptions}
+ * @param token Optional cancellation token, cancelling stops waiting for the execution
+ */
+async function performExecutionRun(
+	tracker: CellExecutionTracker,
+	run: ExecutionRun,
+	options: ExecutionOptions,
+	token?: vscode.CancellationToken,
+): Promise<void> {
+	const { interruptOnTimeout = false, interruptOnCancel = true } = options
+	const { notebook } = run
+	const deadline = run.timeoutSeconds > 0 ? Date.now() + run.timeoutSeconds * 1000 : Infinity
+	try {
+		run.allSettled = true
+		if (run.mode === "continue") {
+			for (const record of tracker.records) {
+				if (record.status === "skipped") continue
+				if (token?.isCancellationRequested) {
+					run.allSettled = false
+					break
 				}
+				await requestCellExecution(notebook, [record.cell])
+				run.allSettled = await tracker.wait(deadline - Date.now(), [record], token)
+				if (!run.allSettled) break
+			}
+		} else {
+			// The controller cancels the cells queued after a failing one, cells expected to fail go last in a submission
+			const submissions: CellExecutionRecord[][] = [[]]
+			for (const record of tracker.records) {
+				if (record.status === "skipped") continue
+				submissions[submissions.length - 1].push(record)
+				if (record.expectsError) submissions.push([])
+			}
+			for (const records of submissions.filter((submission) => submission.length > 0)) {
+				if (token?.isCancellationRequested) {
+					run.allSettled = false
+					break
+				}
+				await requestCellExecution(notebook, records.map((record) => record.cell))
+				run.allSettled = await tracker.wait(deadline - Date.now(), records, token)
+				if (!run.allSettled || records.some((record) => record.status === "failed" && !record.expectsError)) break
 			}
 		}
-	} else {
-		// For markdown cells, just show the content without In/Out labels
-		result += `\`\`\`${cellLanguageId}\n${cellContent}\n\`\`\`\n\n`
+
+		const started = tracker.records.some((r) => r.status !== "pending" && r.status !== "skipped")
+		if (!run.allSettled && (token?.isCancellationRequested ? interruptOnCancel && started : interruptOnTimeout)) {
+			await interruptNotebookKernel(notebook)
+			run.interrupted = true
+			// Give the controller a moment to report the interrupted and cancelled cells
+			await tracker.wait(INTERRUPT_SETTLE_MS)
+		}
+	} finally {
+		tracker.dispose()
+		run.cancelled = token?.isCancellationRequested ?? false
+		run.finished = true
+	}
+}
+
+/**
+ * Notes that outputs were shortened to fit the response budget
+ */
+function budgetNote(constrained: boolean, options: OutputOptions): string {
+	return constrained
+		? `> Outputs were shortened to fit the response budget of ${options.responseBudget} characters, read them in full with get_cell_output.\n\n`
+		: ""
+}
+
+/**
+ * Formats the results of a run, or its progress so far when it is still going
+ *
+ * @param run The run
+ * @param options Options controlling how outputs are shown, see {@link OutputOptions}
+ * @returns A string containing formatted information about the executed cells
+ */
+function formatExecutionRun(run: ExecutionRun, options: OutputOptions): string {
+	const { notebook, startIndex, stopIndex, mode, timeoutSeconds, records } = run
+
+	// Format results similar to getCells
+	let result = `# Cell Execution Results\n\nNotebook: ${notebook.uri.toString()}\n\n`
+	if (run.policyReport) {
+		result += `${run.policyReport}\n`
+	}
+	if (!run.finished) {
+		result += `> Execution is still in progress, results below are partial!\n`
+	} else if (run.cancelled) {
+		result += `> Execution was cancelled, results below are partial and describe what completed before cancellation!\n`
+	} else if (!run.allSettled) {
+		result += `> Mind that not all cells completed execution within ${timeoutSeconds} seconds!\n`
+	}
+	result += `${run.finished ? "Executed" : "Executing"} ${records.length} code cells in range ${startIndex}-${stopIndex - 1} (mode: ${mode}): ${summarizeExecution(records)}\n\n`
+
+	// Tell where and why the run stopped short
+	const stoppedAt = records.find((r) => r.status === "running" || (!run.allSettled && r.status === "pending"))
+	const failures = records.filter((r) => r.status === "failed" && !r.expectsError)
+	if (run.finished) {
+		if (run.cancelled) {
+			result += run.interrupted
+				? `Run stopped: execution was cancelled, the kernel was interrupted.\n\n`
+				: `Run stopped: execution was cancelled, cells already submitted may still be running in the kernel.\n\n`
+		} else if (!run.allSettled && run.interrupted) {
+			result += `Run stopped: execution did not complete within ${timeoutSeconds} seconds, the kernel was interrupted.\n\n`
+		} else if (!run.allSettled && stoppedAt) {
+			result += `Run stopped at cell ${stoppedAt.cell.index}: execution did not complete within ${timeoutSeconds} seconds, it may still be running in the kernel.\n\n`
+		} else if (mode !== "continue" && failures.length > 0) {
+			result += `Run stopped at cell ${failures[0].cell.index}: the cell raised an error.\n\n`
+		} else if (failures.length > 0) {
+			result += `Run continued past failing cells ${failures.map((r) => r.cell.index).join(", ")}.\n\n`
+		}
+	}
+
+	// Tell which cells raised what, the full tracebacks follow with the cells
+	const raised = records
+		.filter((r) => r.status !== "pending")
+		.flatMap((r) => collectCellErrors(r.cell).map((error) => ({ index: r.cell.index, error })))
+	if (raised.length > 0) {
+		result += `Errors raised:\n`
+		for (const { index, error } of raised) {
+			result += `- Cell ${index}: ${error.ename}: ${error.evalue}\n`
+		}
+		result += "\n"
+	}
+
+	// Cells yet to run have nothing new to show
+	const shown = records.filter((record) => run.finished || record.status !== "pending")
+	const { limits, constrained } = outputSizeLimits(
+		shown.map((record) => record.cell),
+		options,
+	)
+	result += budgetNote(constrained, options)
+	for (const record of shown) {
+		result += showCell(record.cell, { ...options, maxOutputSize: limits.get(record.cell)! })
+		result += `**Execution**: ${describeCellExecution(record)}\n\n`
+		result += "---\n\n"
 	}
 
 	return result
 }
 
+/**
+ * Formats the state of a background execution job
+ *
+ * @param job The job
+ * @param options Options controlling how outputs are shown, see {@link OutputOptions}
+ * @returns A string containing the job state, followed by the results of its run so far
+ */
+function formatExecutionJob(job: ExecutionJob, options: OutputOptions): string {
+	const elapsedMs = (job.finishedAt ?? Date.now()) - job.startedAt
+	const settledCount = job.run.records.filter((r) => r.status !== "pending" && r.status !== "running").length
+
+	let result = `# Execution Job ${job.id}\n\n`
+	result += `- **Status**: ${job.finishedAt === undefined ? "running" : job.error ? "errored" : "finished"}\n`
+	result += `- **Started**: ${new Date(job.startedAt).toISOString()} (${(elapsedMs / 1000).toFixed(1)}s ${job.finishedAt === undefined ? "ago" : "elapsed"})\n`
+	result += `- **Progress**: ${settledCount} of ${job.run.records.length} code cells done\n`
+	if (job.error) {
+		result += `- **Error**: ${job.error instanceof Error ? job.error.message : String(job.error)}\n`
+	}
+	result += "\n"
+	return result + formatExecutionRun(job.run, options)
+}
+
 /**
  * Helper that executes the specified range of cells
  *
- * @param cells The cells array from the notebook
+ * @param notebook The notebook containing the cells
  * @param startIndex The starting index of cells to execute
  * @param stopIndex The stopping index of cells to execute
- * @param maxOutputSize Maximum size for cell output
- * @param timeoutSeconds Maximum seconds to wait for execution
- * @returns A string containing formatted information about the executed cells
+ * @param options Options controlling the execution, see {@link ExecutionOptions}
+ * @param token Optional cancellation token, cancelling stops waiting and reports what completed so far
+ * @returns A string containing formatted information about the executed cells, or the started background job
  */
 async function executeNotebookCells(
-	cells: vscode.NotebookCell[],
+	notebook: vscode.NotebookDocument,
 	startIndex: number,
 	stopIndex: number,
-	maxOutputSize: number = 2000,
-	timeoutSeconds: number = 30,
+	options: ExecutionOptions = {},
+	token?: vscode.CancellationToken,
 ): Promise<string> {
+	const { mode = "stop_on_error", background = false } = options
+	await ensureCellIds(notebook)
+	;({ startIndex, stopIndex } = resolveExecutionRange(mode, startIndex, stopIndex, notebook.cellCount))
+
 	// Get the cells to execute
-	const cellsToExecute = cells.slice(startIndex, stopIndex)
+	const cellsToExecute = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
 
 	// Filter only code cells as markdown cells cannot be executed
 	const codeCells = cellsToExecute.filter((cell) => cell.kind === vscode.NotebookCellKind.Code)
 
 	if (codeCells.length === 0) {
-		return `# Cell Execution\n\nNo code cells found in the specified range (${startIndex}-${stopIndex - 1}).`
+		return `# Cell Execution\n\nNotebook: ${notebook.uri.toString()}\n\nNo code cells found in the specified range (${startIndex}-${stopIndex - 1}).`
 	}
 
-	// Store previous execution orders for all code cells
-	const previousExecutionOrders = new Map<number, number | undefined>()
-	codeCells.forEach((cell) => {
-		previousExecutionOrders.set(cell.index, cell.executionSummary?.executionOrder)
-	})
+	// Consult the execution policy before anything runs
+	const policyCheck = await checkExecutionPolicy(executedCode(codeCells, options.honorCellTags), options.executionPolicy)
+	if (!policyCheck.execute) {
+		return `# Cell Execution\n\nNotebook: ${notebook.uri.toString()}\n\n${policyCheck.report}`
+	}
 
-	// Wait for execution to complete or timeout
-	const timeoutMs = timeoutSeconds * 1000
-	let executionComplete = false
-	const startTime = Date.now()
+	// Track execution through notebook change events, subscribed before the execution is requested
+	const tracker = new CellExecutionTracker(notebook, codeCells, options.honorCellTags)
+	const run: ExecutionRun = {
+		notebook,
+		startIndex,
+		stopIndex,
+		mode,
+		timeoutSeconds: background ? (options.backgroundTimeoutSeconds ?? 600) : (options.timeoutSeconds ?? 30),
+		records: tracker.records,
+		finished: false,
+		allSettled: false,
+		interrupted: false,
+		cancelled: false,
+		policyReport: policyCheck.report,
+	}
 
-	// Execute the cells
-	await vscode.commands.executeCommand("notebook.cell.execute", {
-		start: startIndex,
-		end: stopIndex,
-	})
+	if (background) {
+		// The job outlives this call, so it doesn't follow the caller's cancellation
+		const job = ExecutionJobs.start(run, (jobToken) => performExecutionRun(tracker, run, options, jobToken))
+		return (
+			`# Cell Execution Started\n\nNotebook: ${notebook.uri.toString()}\n\n` +
+			`Started background execution job **${job.id}** for ${codeCells.length} code cells in range ${startIndex}-${stopIndex - 1} (mode: ${mode}).\n` +
+			`Use get_execution_status or wait_for_execution with job_id "${job.id}" to follow its progress, cancel_execution to stop it.` +
+			(policyCheck.report ? `\n\n${policyCheck.report}` : "")
+		)
+	}
 
-	// Poll for execution completion
-	let allComplete = true
-	while (!executionComplete && Date.now() - startTime < timeoutMs) {
-		// Check if execution orders have changed for all cells, indicating completion
-		for (const cell of codeCells) {
-			if (cell.document.getText().trim() === "") {
-				// bypass cells with empty content, they'll never get a new exec order, or we'll hang waiting here
-				continue
-			}
-			if (cell.executionSummary?.executionOrder === previousExecutionOrders.get(cell.index)) {
-				allComplete = false
-				break
-			}
-		}
+	await performExecutionRun(tracker, run, options, token)
+	return formatExecutionRun(run, { ...DEFAULT_OUTPUT_OPTIONS, ...options })
+}
 
-		if (allComplete) {
-			executionComplete = true
-			// Give a short delay to ensure outputs are fully populated
-			await new Promise((resolve) => setTimeout(resolve, 500))
-		} else {
-			// Wait a bit before checking again
-			await new Promise((resolve) => setTimeout(resolve, 200))
-		}
-	}
+/**
+ * Lists the code an edit followed by an execution runs, as the notebook will be once the edit is applied
+ *
+ * The execution mode may extend the run past the written cells, so the cells it reaches are included.
+ *
+ * @param notebook The notebook before the edit
+ * @param startIndex Index of the first replaced cell, or the insert position
+ * @param stopIndex Index past the last replaced cell, the insert position for an insertion
+ * @param newCells The cells the edit writes
+ * @param options Options controlling the execution, see {@link ExecutionOptions}
+ */
+function executedCodeAfterEdit(
+	notebook: vscode.NotebookDocument,
+	startIndex: number,
+	stopIndex: number,
+	newCells: vscode.NotebookCellData[],
+	options: ExecutionOptions,
+): Array<{ label: string; code: string; language: string }> {
+	const { honorCellTags = true } = options
+	const existing = (cell: vscode.NotebookCell) => ({
+		label: `Cell ${cell.index}`,
+		kind: cell.kind,
+		metadata: cell.metadata,
+		code: cell.document.getText(),
+		language: cell.document.languageId,
+	})
+	const planned = [
+		...notebook.getCells(new vscode.NotebookRange(0, startIndex)).map(existing),
+		...newCells.map((cell, i) => ({
+			label: `New cell ${startIndex + i}`,
+			kind: cell.kind,
+			metadata: cell.metadata,
+			code: cell.value,
+			language: cell.languageId,
+		})),
+		...notebook.getCells(new vscode.NotebookRange(stopIndex, notebook.cellCount)).map(existing),
+	]
+	const range = resolveExecutionRange(options.mode ?? "stop_on_error", startIndex, startIndex + newCells.length, planned.length)
+	return planned
+		.slice(range.startIndex, range.stopIndex)
+		.filter(
+			(cell) => cell.kind === vscode.NotebookCellKind.Code && !(honorCellTags && hasCellTag(cell, SKIP_EXECUTION_TAG)),
+		)
+		.map(({ label, code, language }) => ({ label, code, language }))
+}
 
-	// Format results similar to getCells
-	let result = `# Cell Execution Results\n\n`
-	if (!allComplete) {
-		result += `> Mind that not all cells completed execution within ${timeoutSeconds} seconds!\n`
-	}
-	result += `Executed ${codeCells.length} code cells in range ${startIndex}-${stopIndex - 1}.\n\n`
+/**
+ * Notes that an edit stays applied when the execution following it got cancelled
+ */
+function appliedEditNote(token?: vscode.CancellationToken): string {
+	return token?.isCancellationRequested
+		? "\n\n> The request was cancelled during execution, the edit above has already been applied to the notebook."
+		: ""
+}
 
-	for (const cell of codeCells) {
-		result += showCell(cell, maxOutputSize)
-		result += "---\n\n"
-	}
+/**
+ * Copies a cell into cell data, with its metadata, outputs and execution summary
+ */
+function copyCellData(cell: vscode.NotebookCell): vscode.NotebookCellData {
+	const cellData = new vscode.NotebookCellData(cell.kind, cell.document.getText(), cell.document.languageId)
+	cellData.metadata = cell.metadata
+	cellData.outputs = [...cell.outputs]
+	cellData.executionSummary = cell.executionSummary
+	return cellData
+}
 
-	return result
+/**
+ * Splits cell source into nbformat source lines, each but the last keeping its line break
+ */
+function toSourceLines(source: string): string[] {
+	return source === "" ? [] : source.split(/(?<=\n)/)
+}
+
+/**
+ * Default kernelspecs of new notebooks, by language
+ */
+const DEFAULT_KERNELSPECS: Record<string, { name: string; display_name: string; language: string }> = {
+	python: { name: "python3", display_name: "Python 3", language: "python" },
+	r: { name: "ir", display_name: "R", language: "R" },
+	julia: { name: "julia", display_name: "Julia", language: "julia" },
 }
 
 /**
@@ -169,17 +564,96 @@ async function executeNotebookCells(
  */
 export class NotebookService {
 	/**
-	 * Gets comprehensive information about the active notebook
+	 * Creates a notebook file, a valid nbformat 4.5 document
+	 *
+	 * @param path Path of the notebook, relative to the workspace root, or absolute
+	 * @param definition The kernelspec or language of the notebook, its initial cells and notebook metadata
+	 * @param overwrite Whether to replace an existing file, instead of failing
+	 * @returns The URI of the created notebook
+	 */
+	static async createNotebookFile(
+		path: string,
+		definition: {
+			kernelspec?: { name: string; display_name?: string; language?: string }
+			language?: string
+			cells?: Array<{ content: string; cell_type?: string }>
+			metadata?: Record<string, unknown>
+		},
+		overwrite: boolean = false,
+	): Promise<vscode.Uri> {
+		if (!path.endsWith(".ipynb")) {
+			throw new ToolError("invalid_value", `The notebook path must end with .ipynb: ${path}`, "path")
+		}
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+		const normalizedPath = path.replace(/\\/g, "/")
+		const uri =
+			normalizedPath.startsWith("/") || /^[a-zA-Z]:\//.test(normalizedPath)
+				? vscode.Uri.file(path)
+				: workspaceFolder
+					? vscode.Uri.joinPath(workspaceFolder.uri, normalizedPath)
+					: undefined
+		if (!uri) {
+			throw new ToolError("invalid_value", `No workspace folder is open to create ${path} in, give an absolute path instead`, "path")
+		}
+
+		const exists = await vscode.workspace.fs.stat(uri).then(
+			() => true,
+			() => false,
+		)
+		if (exists && !overwrite) {
+			throw new ToolError(
+				"already_exists",
+				`${uri.toString()} already exists. Open it with open_notebook, or pass overwrite: true to replace it.`,
+				"path",
+			)
+		}
+
+		const language = (definition.kernelspec?.language ?? definition.language ?? "python").toLowerCase()
+		const kernelspec = definition.kernelspec
+			? {
+					display_name: definition.kernelspec.display_name ?? definition.kernelspec.name,
+					language,
+					...definition.kernelspec,
+				}
+			: DEFAULT_KERNELSPECS[language]
+		const metadata: Record<string, unknown> = { language_info: { name: language } }
+		if (kernelspec) metadata.kernelspec = kernelspec
+
+		const content = {
+			cells: (definition.cells ?? []).map((cell) =>
+				cell.cell_type === "code"
+					? {
+							cell_type: "code",
+							execution_count: null,
+							id: randomCellId(),
+							metadata: {},
+							outputs: [],
+							source: toSourceLines(cell.content),
+						}
+					: { cell_type: "markdown", id: randomCellId(), metadata: {}, source: toSourceLines(cell.content) },
+			),
+			metadata: { ...metadata, ...definition.metadata },
+			nbformat: 4,
+			nbformat_minor: 5,
+		}
+
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, ".."))
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(content, null, 1) + "\n", "utf8"))
+		return uri
+	}
+
+	/**
+	 * Gets comprehensive information about the target notebook
 	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
 	 * @returns A string containing detailed information about the notebook, including URI, kernel, and cell stats
 	 */
-	static async getNotebookInfo(): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
+	static async getNotebookInfo(notebookRef?: string): Promise<string> {
+		if (!notebookRef && !vscode.window.activeNotebookEditor) {
 			return "# Notebook Information\n\nNo active notebook found."
 		}
 
-		const notebook = notebookEditor.notebook
+		const notebook = await resolveNotebook(notebookRef)
 		const uri = notebook.uri.toString()
 
 		// Get total cells count
@@ -212,13 +686,19 @@ export class NotebookService {
 		result += `## Basic Information\n`
 		result += `- **URI**: ${uri}\n`
 		result += `- **Notebook Type**: ${notebook.notebookType}\n`
-		result += `- **Dirty?**: ${notebookEditor.notebook.isDirty}\n`
+		result += `- **Dirty?**: ${notebook.isDirty}\n`
+		result += `- **Active?**: ${vscode.window.activeNotebookEditor?.notebook === notebook}\n`
+		result += `- **Version**: ${NotebookVersions.token(notebook)}\n`
 		if (kernelSpec) {
 			result += `- **Kernel Language**: ${kernelSpec.language}\n`
 			result += `- **Kernel**: ${kernelSpec.display_name} (${kernelSpec.name})\n`
 		}
 		result += "\n"
 
+		result += `## Kernel State\n`
+		result += await describeKernelState(notebook)
+		result += "\n"
+
 		result += `## Cell Statistics\n`
 		result += `- **Total Cells**: ${totalCells}\n`
 		result += `- **Markdown Cells**: ${markdownCellCount}\n`
@@ -230,74 +710,201 @@ export class NotebookService {
 			for (const [language, count] of Object.entries(languageCounts)) {
 				result += `- **${language}**: ${count} cells\n`
 			}
+			result += "\n"
+		}
+
+		// Tell which outputs can't be taken at face value
+		const flagged = (flag: ExecutionFlag) =>
+			cells.filter((cell) => getExecutionFlags(cell).includes(flag)).map((cell) => cell.index)
+		const stale = flagged("stale")
+		const outOfOrder = flagged("out-of-order")
+		const neverRun = flagged("never-run")
+		if (codeCellCount > 0) {
+			result += `## Execution State\n`
+			if (stale.length + outOfOrder.length + neverRun.length === 0) {
+				result += `All code cells were executed top to bottom, and none was changed since.\n`
+			}
+			if (stale.length > 0) {
+				result += `- **Stale Cells** (changed since last executed): ${formatIndexRanges(stale)}\n`
+			}
+			if (outOfOrder.length > 0) {
+				result += `- **Executed Out of Order** (a cell above ran later): ${formatIndexRanges(outOfOrder)}\n`
+			}
+			if (neverRun.length > 0) {
+				result += `- **Never Run**: ${formatIndexRanges(neverRun)}\n`
+			}
 		}
 
 		return result
 	}
 
 	/**
-	 * Gets information about all cells in the active notebook
+	 * Gets information about the cells in the target notebook, all of them unless a query selects some
 	 *
-	 * @param maxOutputSize Maximum size for cell content and outputs (default: 2000 characters)
-	 * @returns A string containing formatted information about all cells
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param options Options controlling how outputs are shown (default: 2000 characters per output)
+	 * @param query Optional criteria selecting the cells to show, see {@link CellQuery}
+	 * @param parts Which parts of the cells to show (default: source and outputs)
+	 * @param includeMetadata Whether to show the metadata of the cells, besides their tags (default: false)
+	 * @returns A string containing formatted information about the selected cells, and what was omitted
 	 */
-	static async getCells(maxOutputSize: number = 2000): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
+	static async getCells(
+		notebookRef?: string,
+		options: OutputOptions = DEFAULT_OUTPUT_OPTIONS,
+		query: CellQuery = {},
+		parts: CellParts = "all",
+		includeMetadata: boolean = false,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
 
-		const cells = notebookEditor.notebook.getCells()
-		if (cells.length === 0) {
-			return "# Notebook Analysis\n\nThe notebook is empty - it contains no cells."
+		if (notebook.cellCount === 0) {
+			return `# Notebook Analysis\n\nNotebook: ${notebook.uri.toString()}\nVersion: ${NotebookVersions.token(notebook)}\n\nThe notebook is empty - it contains no cells.`
 		}
 
-		let result = `# Notebook Analysis\n\nNotebook contains ${cells.length} cells:\n\n`
+		const { cells, filteredOut, nextStartIndex } = selectCells(notebook, query)
+		let result = `# Notebook Analysis\n\nNotebook: ${notebook.uri.toString()}\n`
+		result += `Version: ${NotebookVersions.token(notebook)} (pass as expected_version to edits based on what is shown)\n\n`
+		if (cells.length === notebook.cellCount) {
+			result += `Notebook contains ${cells.length} cells:\n\n`
+		} else {
+			result += `Notebook contains ${notebook.cellCount} cells, showing ${cells.length}`
+			result += cells.length > 0 ? ` (${formatIndexRanges(cells.map((cell) => cell.index))})` : ""
+			result += filteredOut > 0 ? `, ${filteredOut} cells in the range did not match the criteria` : ""
+			result += `.\n`
+			if (nextStartIndex !== undefined) {
+				result += `More matching cells follow, continue with start_index ${nextStartIndex}.\n`
+			}
+			result += "\n"
+		}
 
+		const { limits, constrained } = outputSizeLimits(cells, options)
+		if (parts !== "source") result += budgetNote(constrained, options)
 		for (const cell of cells) {
-			result += showCell(cell, maxOutputSize)
+			result += showCell(cell, { ...options, maxOutputSize: limits.get(cell)! }, parts, includeMetadata)
 			result += "---\n\n"
 		}
 
 		return result
 	}
 
+	/**
+	 * Gets a page of the full text output of a cell, for outputs truncated in other results
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param validateCellIndex Callback to validate the cell index against the notebook's cell count, or resolve a cell id
+	 * @param outputIndex Optional index of the output, all textual outputs of the cell are paged through when omitted
+	 * @param itemIndex Optional index of the item within the output, defaults to its first textual item
+	 * @param offset Offset in characters of the page (default: 0)
+	 * @param length Length in characters of the page (default: 2000)
+	 * @returns A string containing the page, and how to read the next one
+	 */
+	static async getCellOutput(
+		notebookRef: string | undefined,
+		validateCellIndex: (cellCount: number, notebook: vscode.NotebookDocument) => number,
+		outputIndex?: number,
+		itemIndex?: number,
+		offset: number = 0,
+		length: number = 2000,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const cellIndex = validateCellIndex(notebook.cellCount, notebook)
+		const cell = notebook.cellAt(cellIndex)
+
+		let text: string
+		let source: string
+		if (outputIndex === undefined) {
+			// Join the textual outputs, each under a header telling where it comes from
+			const parts: string[] = []
+			for (const [o, output] of cell.outputs.entries()) {
+				for (const [i, item] of output.items.entries()) {
+					const itemText = outputItemText(item)
+					if (itemText !== undefined) parts.push(`[output_index: ${o}, item_index: ${i}, MIME: ${item.mime}]\n${itemText}`)
+				}
+			}
+			if (parts.length === 0) {
+				return `# Cell Output\n\nNotebook: ${notebook.uri.toString()}\n\nCell ${cellIndex} has no textual output.`
+			}
+			text = parts.join("\n\n")
+			source = `all textual outputs of cell ${cellIndex}`
+		} else {
+			if (outputIndex < 0 || outputIndex >= cell.outputs.length) {
+				throw new ToolError(
+					"out_of_range",
+					`Output index ${outputIndex} is out of bounds, cell ${cellIndex} has ${cell.outputs.length} outputs`,
+					"output_index",
+					cell.outputs.length > 0 ? `0-${cell.outputs.length - 1}` : "none",
+				)
+			}
+			const items = cell.outputs[outputIndex].items
+			const index = itemIndex ?? items.findIndex((item) => outputItemText(item) !== undefined)
+			if (index < 0 || index >= items.length) {
+				throw new ToolError(
+					"out_of_range",
+					`Item index ${itemIndex ?? 0} is out of bounds or not textual, output ${outputIndex} has ${items.length} items`,
+					"item_index",
+					items.length > 0 ? `0-${items.length - 1}` : "none",
+				)
+			}
+			const itemText = outputItemText(items[index])
+			if (itemText === undefined) {
+				throw new ToolError(
+					"invalid_value",
+					`Item ${index} of output ${outputIndex} has no textual form (MIME: ${items[index].mime})`,
+					"item_index",
+				)
+			}
+			text = itemText
+			source = `cell ${cellIndex}, output_index ${outputIndex}, item_index ${index} (MIME: ${items[index].mime})`
+		}
+
+		const start = Math.min(Math.max(0, offset), text.length)
+		const end = Math.min(text.length, start + Math.max(1, length))
+		let result = `# Cell Output\n\nNotebook: ${notebook.uri.toString()}\n\n`
+		result += `Characters ${start}-${end} of ${text.length} from ${source}:\n\n`
+		result += `\`\`\`\n${text.substring(start, end)}\n\`\`\`\n\n`
+		result +=
+			end < text.length
+				? `${text.length - end} characters remain, continue with offset ${end}.`
+				: `This is the end of the output.`
+		return result
+	}
+
 	/**
 	 * Inserts multiple cells at the specified position
 	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
 	 * @param cells Array of cell definitions to insert
 	 * @param insertPosition Optional position to insert the cells (defaults to end)
 	 * @param noexec Optional flag to skip execution of inserted cells (defaults to false)
-	 * @param maxOutputSize Maximum size for cell output (default: 2000 characters)
-	 * @param timeoutSeconds Maximum seconds to wait for execution (default: 30)
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting for the execution
 	 * @returns A string indicating success or failure
 	 */
 	static async insertCells(
-		cells: Array<{
-			content: string
-			cell_type?: string
-			language_id?: string
-		}>,
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		cells: CellDefinition[],
 		insertPosition?: number,
 		noexec: boolean = false,
-		maxOutputSize: number = 2000,
-		timeoutSeconds: number = 30,
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
 	): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
+		const notebook = await resolveNotebook(notebookRef)
 
 		if (cells.length === 0) {
-			throw new Error("cells array is required and must not be empty.")
+			throw new ToolError("invalid_value", "cells array must not be empty.", "cells")
 		}
 
 		const position =
 			typeof insertPosition === "number"
-				? Math.min(Math.max(0, insertPosition), notebookEditor.notebook.cellCount)
-				: notebookEditor.notebook.cellCount // Default to end
+				? Math.min(Math.max(0, insertPosition), notebook.cellCount)
+				: notebook.cellCount // Default to end
+
+		cells.forEach((cell, i) => assertNoNewPlaceholders("", cell.content ?? "", `cells[${i}].content`))
 
 		// Create cell data for each cell definition
+		const reservedIds = new Set<string>()
 		const cellDataArray: vscode.NotebookCellData[] = cells.map((cellDefinition) => {
 			// Determine cell kind based on cell_type
 			const cellKind =
@@ -308,9 +915,9 @@ export class NotebookService {
 				cellKind === vscode.NotebookCellKind.Markup ? "markdown" : cellDefinition.language_id || ""
 
 			// If still no language ID for code cells, try to get from existing cells as fallback
-			if (cellKind === vscode.NotebookCellKind.Code && !cellLanguageId && notebookEditor.notebook.cellCount > 0) {
+			if (cellKind === vscode.NotebookCellKind.Code && !cellLanguageId && notebook.cellCount > 0) {
 				// Try to get language from existing code cells
-				for (const cell of notebookEditor.notebook.getCells()) {
+				for (const cell of notebook.getCells()) {
 					if (cell.kind === vscode.NotebookCellKind.Code) {
 						cellLanguageId = cell.document.languageId
 						break
@@ -323,66 +930,89 @@ export class NotebookService {
 				}
 			}
 
-			return new vscode.NotebookCellData(cellKind, cellDefinition.content, cellLanguageId)
+			const cellData = new vscode.NotebookCellData(cellKind, cellDefinition.content, cellLanguageId)
+			cellData.metadata = { id: newCellId(notebook, reservedIds) }
+			return cellData
 		})
 
+		if (!noexec) {
+			assertExecutionNotDenied(
+				executedCodeAfterEdit(notebook, position, position, cellDataArray, options),
+				options.executionPolicy,
+			)
+		}
+
+		NotebookVersions.check(notebook, expectedVersion)
+
 		// Create a notebook edit to insert the cells
 		const notebookEdit = vscode.NotebookEdit.insertCells(position, cellDataArray)
 
 		// Apply the edit
 		const workspaceEdit = new vscode.WorkspaceEdit()
-		workspaceEdit.set(notebookEditor.notebook.uri, [notebookEdit])
+		workspaceEdit.set(notebook.uri, [notebookEdit])
 
 		await vscode.workspace.applyEdit(workspaceEdit)
 
-		const result = `Successfully inserted ${cellDataArray.length} new cells at position ${position}.`
+		const insertedCells = notebook.getCells(new vscode.NotebookRange(position, position + cellDataArray.length))
+		const result =
+			`Successfully inserted ${cellDataArray.length} new cells at position ${position} in notebook ${notebook.uri.toString()}.\n` +
+			`New cell ids: ${describeCellIds(insertedCells)}\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
 		if (noexec) return result
 
 		// Execute the newly inserted cells
 		const executionResult = await executeNotebookCells(
-			notebookEditor.notebook.getCells(),
+			notebook,
 			position,
 			position + cellDataArray.length,
-			maxOutputSize,
-			timeoutSeconds,
+			options,
+			token,
 		)
-		return result + `\n\n${executionResult}`
+		return result + appliedEditNote(token) + `\n\n${executionResult}`
 	}
 
 	/**
 	 * Replaces a range of cells in the notebook with new cells
 	 *
-	 * @param validateIndicesAndCells A callback that receives the cell count and validates indices and cells
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndicesAndCells A callback that receives the cell count and the notebook, validates indices and cells
 	 * @param noexec Optional flag to skip execution of replaced cells (defaults to false)
-	 * @param maxOutputSize Maximum size for cell output (default: 2000 characters)
-	 * @param timeoutSeconds Maximum seconds to wait for execution (default: 30)
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting for the execution
 	 * @returns A string indicating success or failure
 	 */
 	static async replaceCells(
-		validateIndicesAndCells: (cellCount: number) => {
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndicesAndCells: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => {
 			startIndex: number
 			stopIndex: number
-			cells: Array<{
-				content: string
-				cell_type?: string
-				language_id?: string
-			}>
+			cells: CellDefinition[]
 		},
 		noexec: boolean = false,
-		maxOutputSize: number = 2000,
-		timeoutSeconds: number = 30,
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
 	): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
+		const notebook = await resolveNotebook(notebookRef)
 
-		const existingCells = notebookEditor.notebook.getCells()
+		const existingCells = notebook.getCells()
 
 		// Let the callback validate indices and cells based on cell count
-		const { startIndex, stopIndex, cells } = validateIndicesAndCells(existingCells.length)
+		const { startIndex, stopIndex, cells } = validateIndicesAndCells(existingCells.length, notebook)
 
 		const cellsToReplace = existingCells.slice(startIndex, stopIndex)
+		// Placeholders may move between the replaced cells, but not appear from nowhere
+		const replacedSources = cellsToReplace.map((cell) => cell.document.getText()).join("\n")
+		assertNoNewPlaceholders(
+			replacedSources,
+			cells.map((cell) => cell.content ?? "").join("\n"),
+			cells.length === 1 ? "cells[0].content" : "cells",
+		)
+		const reservedIds = new Set<string>()
 		const cellDataArray: vscode.NotebookCellData[] = cells.map((cellDefinition, iCell) => {
 			// Determine cell kind based on cell_type or from existing cell if not specified
 			let cellKind: vscode.NotebookCellKind
@@ -399,7 +1029,12 @@ export class NotebookService {
 			let languageId: string
 			if (cellKind === vscode.NotebookCellKind.Markup) {
 				if (cellDefinition.language_id !== undefined && cellDefinition.language_id !== "markdown") {
-					throw new Error("language_id must be 'markdown' for markdown cells.")
+					throw new ToolError(
+						"invalid_value",
+						"language_id must be 'markdown' for markdown cells.",
+						`cells[${iCell}].language_id`,
+						`"markdown"`,
+					)
 				}
 				languageId = "markdown"
 			} else if (cellDefinition.language_id) {
@@ -421,10 +1056,23 @@ export class NotebookService {
 					cellData.metadata = peerCell.metadata
 				}
 			}
+			// Keep the id of the peer cell, so the cell can still be addressed by it
+			if (!cellData.metadata?.id) {
+				cellData.metadata = { ...cellData.metadata, id: newCellId(notebook, reservedIds) }
+			}
 
 			return cellData
 		})
 
+		if (!noexec) {
+			assertExecutionNotDenied(
+				executedCodeAfterEdit(notebook, startIndex, stopIndex, cellDataArray, options),
+				options.executionPolicy,
+			)
+		}
+
+		NotebookVersions.check(notebook, expectedVersion)
+
 		// Create notebook edit to replace the range with new cells
 		const notebookEdit = vscode.NotebookEdit.replaceCells(
 			new vscode.NotebookRange(startIndex, stopIndex),
@@ -433,50 +1081,67 @@ export class NotebookService {
 
 		// Apply the edit
 		const workspaceEdit = new vscode.WorkspaceEdit()
-		workspaceEdit.set(notebookEditor.notebook.uri, [notebookEdit])
+		workspaceEdit.set(notebook.uri, [notebookEdit])
 
 		await vscode.workspace.applyEdit(workspaceEdit)
 
-		const result = `Successfully replaced ${stopIndex - startIndex} cells with ${cellDataArray.length} new cells.`
+		const newCells = notebook.getCells(new vscode.NotebookRange(startIndex, startIndex + cellDataArray.length))
+		const result =
+			`Successfully replaced ${stopIndex - startIndex} cells with ${cellDataArray.length} new cells in notebook ${notebook.uri.toString()}.\n` +
+			`New cell ids: ${describeCellIds(newCells)}\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
 		if (noexec) return result
 
 		const executionResult = await executeNotebookCells(
-			notebookEditor.notebook.getCells(),
+			notebook,
 			startIndex,
 			startIndex + cellDataArray.length,
-			maxOutputSize,
-			timeoutSeconds,
+			options,
+			token,
 		)
-		return result + `\n\n${executionResult}`
+		return result + appliedEditNote(token) + `\n\n${executionResult}`
 	}
 
 	/**
 	 * Modify the content of an existing cell
 	 *
-	 * @param validateCellIndex A callback that receives the cell count and validates/returns the cellIndex
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateCellIndex A callback that receives the cell count and the notebook, validates/returns the cellIndex
 	 * @param content The new content for the cell
 	 * @param noexec Optional flag to skip execution of the modified cell (defaults to false)
-	 * @param maxOutputSize Maximum size for cell output (default: 2000 characters)
-	 * @param timeoutSeconds Maximum seconds to wait for execution (default: 30)
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting for the execution
 	 * @returns A string indicating success or failure
 	 */
 	static async modifyCellContent(
-		validateCellIndex: (cellCount: number) => number,
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateCellIndex: (cellCount: number, notebook: vscode.NotebookDocument) => number,
 		content: string,
 		noexec: boolean = false,
-		maxOutputSize: number = 2000,
-		timeoutSeconds: number = 30,
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
 	): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
+		const notebook = await resolveNotebook(notebookRef)
 
 		let cellIndex = 0
 
 		await NotebookService.replaceCells(
+			notebook.uri.toString(),
+			expectedVersion,
 			(cellCount: number) => {
-				cellIndex = validateCellIndex(cellCount)
+				cellIndex = validateCellIndex(cellCount, notebook)
+				assertNoNewPlaceholders(notebook.cellAt(cellIndex).document.getText(), content, "content")
+				if (!noexec) {
+					const cell = notebook.cellAt(cellIndex)
+					const cellData = new vscode.NotebookCellData(cell.kind, content, cell.document.languageId)
+					cellData.metadata = cell.metadata
+					assertExecutionNotDenied(
+						executedCodeAfterEdit(notebook, cellIndex, cellIndex + 1, [cellData], options),
+						options.executionPolicy,
+					)
+				}
 				return {
 					startIndex: cellIndex,
 					stopIndex: cellIndex + 1,
@@ -484,100 +1149,823 @@ export class NotebookService {
 				}
 			},
 			true,
-			maxOutputSize,
-			timeoutSeconds,
+			options,
 		)
 
-		const result = `Successfully modified cell at index ${cellIndex} with new content.`
+		const cellId = getCellId(notebook.cellAt(cellIndex))
+		const result =
+			`Successfully modified cell at index ${cellIndex}${cellId ? ` (id: ${cellId})` : ""} with new content in notebook ${notebook.uri.toString()}.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
 		if (noexec) return result
 
 		const executionResult = await executeNotebookCells(
-			notebookEditor.notebook.getCells(),
+			notebook,
 			cellIndex,
 			cellIndex + 1,
-			maxOutputSize,
-			timeoutSeconds,
+			options,
+			token,
 		)
-		return result + `\n\n${executionResult}`
+		return result + appliedEditNote(token) + `\n\n${executionResult}`
 	}
 
 	/**
-	 * Executes the specified cells in the active notebook and returns their results
+	 * Patches the source of an existing cell, with search/replace blocks or a unified diff
+	 *
+	 * The patch is applied atomically: when any block or hunk does not match, the cell is left unchanged.
 	 *
-	 * @param validateIndices A callback that receives the total cell count and validates/returns the start and end indices
-	 * @param maxOutputSize Maximum size for cell output (default: 2000 characters)
-	 * @param timeoutSeconds Maximum seconds to wait for execution (default: 30)
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateCellIndex A callback that receives the cell count and the notebook, validates/returns the cellIndex
+	 * @param patch The patch to apply, see {@link CellPatch}
+	 * @param noexec Optional flag to skip execution of the patched cell (defaults to false)
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting for the execution
+	 * @returns A string indicating success or failure
+	 */
+	static async patchCell(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateCellIndex: (cellCount: number, notebook: vscode.NotebookDocument) => number,
+		patch: CellPatch,
+		noexec: boolean = false,
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const cellIndex = validateCellIndex(notebook.cellCount, notebook)
+		const cell = notebook.cellAt(cellIndex)
+		const patched = applyCellPatch(cell.document.getText(), patch)
+		assertNoNewPlaceholders(cell.document.getText(), patched.source, patch.diff !== undefined ? "diff" : "edits")
+
+		const result = await NotebookService.modifyCellContent(
+			notebook.uri.toString(),
+			expectedVersion,
+			() => cellIndex,
+			patched.source,
+			noexec,
+			options,
+			token,
+		)
+		const kind = patch.diff !== undefined ? "hunk" : "block"
+		return (
+			`Applied ${patched.applied} ${kind}${patched.applied !== 1 ? "s" : ""} to cell ${cellIndex}: ` +
+			`${patched.linesAdded} lines added, ${patched.linesRemoved} lines removed.\n` +
+			result
+		)
+	}
+
+	/**
+	 * Executes the specified cells in the target notebook and returns their results
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param validateIndices A callback that receives the total cell count and the notebook, validates/returns the start and end indices
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting for the execution
 	 * @returns A string containing formatted information about the executed cells
 	 */
 	static async executeCells(
-		validateIndices: (cellCount: number) => { startIndex: number; stopIndex: number },
-		maxOutputSize: number = 2000,
-		timeoutSeconds: number = 30,
+		notebookRef: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
 	): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
-
-		const cells = notebookEditor.notebook.getCells()
+		const notebook = await resolveNotebook(notebookRef)
 
 		// Let the callback validate and return the indices based on cell count
-		const { startIndex, stopIndex } = validateIndices(cells.length)
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
 
 		// Execute the cells and get the results
-		const result = await executeNotebookCells(cells, startIndex, stopIndex, maxOutputSize, timeoutSeconds)
+		const result = await executeNotebookCells(notebook, startIndex, stopIndex, options, token)
+
+		return result
+	}
+
+	/**
+	 * Evaluates code in the notebook's kernel without adding a cell, nothing is kept in the notebook
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param code The code to evaluate
+	 * @param options Options controlling the execution, see {@link ExecutionOptions}
+	 * @param token Optional cancellation token, cancelling stops waiting and reports the outputs so far
+	 * @returns A string containing the outputs of the evaluation
+	 */
+	static async evaluate(
+		notebookRef: string | undefined,
+		code: string,
+		options: ExecutionOptions = {},
+		token?: vscode.CancellationToken,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const { timeoutSeconds = 30, interruptOnTimeout = false, interruptOnCancel = true } = options
+		const outputOptions: OutputOptions = { ...DEFAULT_OUTPUT_OPTIONS, ...options }
+
+		if (code.trim() === "") {
+			throw new ToolError("invalid_value", "code must not be empty", "code")
+		}
+		const kernel = await requireJupyterKernel(notebook)
+		const policyCheck = await checkExecutionPolicy(
+			[{ label: "Evaluated code", code, language: kernel.language }],
+			options.executionPolicy,
+		)
+		if (!policyCheck.execute) {
+			return `# Kernel Evaluation\n\nNotebook: ${notebook.uri.toString()}\n\n${policyCheck.report}`
+		}
+		if (token?.isCancellationRequested) {
+			throw new Error("The evaluation was cancelled before it started")
+		}
+
+		const { outputs, stopped, interrupted, durationMs } = await executeInKernel(
+			notebook,
+			kernel,
+			code,
+			{ timeoutSeconds, interruptOnTimeout, interruptOnCancel },
+			token,
+		)
 
+		const errors = outputs.flatMap((output) => output.items.map(decodeErrorOutput).filter((error) => error !== undefined))
+		let result = `# Kernel Evaluation\n\nNotebook: ${notebook.uri.toString()}\n\n`
+		if (policyCheck.report) {
+			result += `${policyCheck.report}\n`
+		}
+		if (stopped === "timeout") {
+			result += `> Mind that the evaluation did not complete within ${timeoutSeconds} seconds, ${interrupted ? "the kernel was interrupted" : "the code is still running in the kernel and its further outputs are not collected"}!\n`
+		} else if (stopped === "cancelled") {
+			result += `> Evaluation was cancelled, ${interrupted ? "the kernel was interrupted" : "the code is still running in the kernel and its further outputs are not collected"}. The outputs below are partial!\n`
+		}
+		result += `Evaluated in the ${kernel.language} kernel in ${(durationMs / 1000).toFixed(2)}s: `
+		result += stopped ? `not completed.\n` : errors.length > 0 ? `raised an error.\n` : `succeeded.\n`
+		result += `Nothing was added to the notebook.\n\n`
+		result += `### In:\n\n\`\`\`${kernel.language}\n${code}\n\`\`\`\n\n`
+		if (outputs.length === 0) {
+			result += `### Out:\n\nNo output.\n`
+			return result
+		}
+		result += `### Out:\n\n`
+		result += showOutputs(outputs, outputOptions, " ")
 		return result
 	}
 
 	/**
 	 * Deletes a range of cells from the notebook
 	 *
-	 * @param validateIndices A callback that receives the cell count and validates indices
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
 	 * @returns A string indicating success or failure
 	 */
 	static async deleteCells(
-		validateIndices: (cellCount: number) => { startIndex: number; stopIndex: number },
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
 	): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
-		}
+		const notebook = await resolveNotebook(notebookRef)
 
-		const existingCells = notebookEditor.notebook.getCells()
+		const existingCells = notebook.getCells()
 
 		// Let the callback validate indices based on cell count
-		const { startIndex, stopIndex } = validateIndices(existingCells.length)
+		const { startIndex, stopIndex } = validateIndices(existingCells.length, notebook)
 
 		// Calculate how many cells will be deleted
 		const deleteCount = stopIndex - startIndex
 
+		NotebookVersions.check(notebook, expectedVersion)
+
 		// Create notebook edit to delete the range of cells
 		const notebookEdit = vscode.NotebookEdit.deleteCells(new vscode.NotebookRange(startIndex, stopIndex))
 
 		// Apply the edit
 		const workspaceEdit = new vscode.WorkspaceEdit()
-		workspaceEdit.set(notebookEditor.notebook.uri, [notebookEdit])
+		workspaceEdit.set(notebook.uri, [notebookEdit])
 
 		await vscode.workspace.applyEdit(workspaceEdit)
 
-		return `Successfully deleted ${deleteCount} cell${deleteCount !== 1 ? "s" : ""} from index ${startIndex} to ${stopIndex - 1}.`
+		return (
+			`Successfully deleted ${deleteCount} cell${deleteCount !== 1 ? "s" : ""} from index ${startIndex} to ${stopIndex - 1} in notebook ${notebook.uri.toString()}.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
 	}
 
 	/**
-	 * Saves the active notebook to disk
-	 * 
+	 * Clears the outputs and execution state of a range of cells, keeping their source and metadata
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
 	 * @returns A string indicating success or failure
 	 */
-	static async saveNotebook(): Promise<string> {
-		const notebookEditor = vscode.window.activeNotebookEditor
-		if (!notebookEditor) {
-			throw new Error("No active notebook editor found.")
+	static async clearOutputs(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
+		const cleared = notebook
+			.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+			.filter(
+				(cell) =>
+					cell.kind === vscode.NotebookCellKind.Code &&
+					(cell.outputs.length > 0 || cell.executionSummary?.executionOrder !== undefined),
+			)
+		if (cleared.length === 0) {
+			return `No cell in the range has outputs, nothing was cleared.`
 		}
 
+		// Outputs can only be edited by replacing the cells, with their source and metadata but without execution state
+		const edits = cleared.map((cell) => {
+			const metadata = { ...cell.metadata }
+			delete metadata.execution_count
+			const cellData = new vscode.NotebookCellData(cell.kind, cell.document.getText(), cell.document.languageId)
+			cellData.metadata = metadata
+			return vscode.NotebookEdit.replaceCells(new vscode.NotebookRange(cell.index, cell.index + 1), [cellData])
+		})
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		// Each edit replaces one cell by one, so the indices of the others stay valid
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, edits)
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		return (
+			`Successfully cleared the outputs of ${cleared.length} cell${cleared.length !== 1 ? "s" : ""} (${formatIndexRanges(cleared.map((cell) => cell.index))}) in notebook ${notebook.uri.toString()}.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Moves a range of cells to another position, keeping their metadata, outputs and execution summaries
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
+	 * @param toIndex Position to move the cells to, counted in the notebook before the move (0 to the cell count)
+	 * @returns A string indicating success or failure
+	 */
+	static async moveCells(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+		toIndex: number,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const existingCells = notebook.getCells()
+		const { startIndex, stopIndex } = validateIndices(existingCells.length, notebook)
+		if (toIndex < 0 || toIndex > existingCells.length) {
+			throw new ToolError(
+				"out_of_range",
+				`Target index ${toIndex} is out of bounds (0-${existingCells.length})`,
+				"to_index",
+				`0-${existingCells.length}`,
+			)
+		}
+		if (toIndex > startIndex && toIndex < stopIndex) {
+			throw new ToolError("invalid_value", `Target index ${toIndex} is inside the moved range ${startIndex}-${stopIndex - 1}`, "to_index")
+		}
+
+		const moved = existingCells.slice(startIndex, stopIndex)
+		if (toIndex === startIndex || toIndex === stopIndex) {
+			return `Cells ${startIndex}-${stopIndex - 1} are already at position ${toIndex}, nothing was moved.`
+		}
+
+		// Rewrite the span between the moved cells and the target in its new order
+		const spanStart = Math.min(startIndex, toIndex)
+		const spanStop = Math.max(stopIndex, toIndex)
+		const reordered =
+			toIndex < startIndex
+				? [...moved, ...existingCells.slice(toIndex, startIndex)]
+				: [...existingCells.slice(stopIndex, toIndex), ...moved]
+		const newStartIndex = toIndex < startIndex ? toIndex : toIndex - moved.length
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const notebookEdit = vscode.NotebookEdit.replaceCells(
+			new vscode.NotebookRange(spanStart, spanStop),
+			reordered.map(copyCellData),
+		)
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, [notebookEdit])
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		const movedCells = notebook.getCells(new vscode.NotebookRange(newStartIndex, newStartIndex + moved.length))
+		return (
+			`Successfully moved ${moved.length} cell${moved.length !== 1 ? "s" : ""} from index ${startIndex} to ${newStartIndex} in notebook ${notebook.uri.toString()}.\n` +
+			`Moved cells: ${describeCellIds(movedCells)}\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Splits a cell in two at a line, the first part keeps the metadata and id of the cell
+	 *
+	 * Outputs are cleared, as neither part produced them.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateCellIndex A callback that receives the cell count and the notebook, validates/returns the cellIndex
+	 * @param line The 1-based line number starting the second part
+	 * @returns A string indicating success or failure
+	 */
+	static async splitCell(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateCellIndex: (cellCount: number, notebook: vscode.NotebookDocument) => number,
+		line: number,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const cellIndex = validateCellIndex(notebook.cellCount, notebook)
+		const cell = notebook.cellAt(cellIndex)
+		const lines = cell.document.getText().split("\n")
+		if (line < 2 || line > lines.length) {
+			throw new ToolError(
+				"out_of_range",
+				`Line ${line} is invalid, cell ${cellIndex} has ${lines.length} lines. Must be between 2 and ${lines.length}`,
+				"line",
+				lines.length >= 2 ? `2-${lines.length}` : "none",
+			)
+		}
+
+		const first = new vscode.NotebookCellData(cell.kind, lines.slice(0, line - 1).join("\n"), cell.document.languageId)
+		first.metadata = cell.metadata
+		const second = new vscode.NotebookCellData(cell.kind, lines.slice(line - 1).join("\n"), cell.document.languageId)
+		second.metadata = { id: newCellId(notebook) }
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const notebookEdit = vscode.NotebookEdit.replaceCells(new vscode.NotebookRange(cellIndex, cellIndex + 1), [
+			first,
+			second,
+		])
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, [notebookEdit])
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		const newCells = notebook.getCells(new vscode.NotebookRange(cellIndex, cellIndex + 2))
+		return (
+			`Successfully split cell ${cellIndex} at line ${line} in notebook ${notebook.uri.toString()}.\n` +
+			`New cell ids: ${describeCellIds(newCells)}\n` +
+			(cell.outputs.length > 0 ? `The outputs of the cell were cleared, execute both parts to refresh them.\n` : "") +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Merges a range of adjacent cells of the same kind and language into one
+	 *
+	 * The merged cell keeps the metadata, id and execution summary of the first cell, and the outputs of all cells in
+	 * order.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
+	 * @returns A string indicating success or failure
+	 */
+	static async mergeCells(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
+		const cells = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+		if (cells.length < 2) {
+			throw new ToolError(
+				"invalid_value",
+				`At least 2 cells are needed to merge, the range ${startIndex}-${stopIndex - 1} has ${cells.length}`,
+				"stop_index",
+				`${startIndex + 2}-${notebook.cellCount}`,
+			)
+		}
+		const [firstCell] = cells
+		const mismatch = cells.find(
+			(cell) => cell.kind !== firstCell.kind || cell.document.languageId !== firstCell.document.languageId,
+		)
+		if (mismatch) {
+			throw new ToolError(
+				"invalid_value",
+				`Cell ${mismatch.index} (${mismatch.document.languageId}) differs in kind or language from cell ${firstCell.index} (${firstCell.document.languageId}), only cells of the same kind and language can be merged`,
+			)
+		}
+
+		const merged = new vscode.NotebookCellData(firstCell.kind, mergeCellSources(cells), firstCell.document.languageId)
+		merged.metadata = firstCell.metadata
+		merged.outputs = cells.flatMap((cell) => [...cell.outputs])
+		merged.executionSummary = firstCell.executionSummary
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const notebookEdit = vscode.NotebookEdit.replaceCells(new vscode.NotebookRange(startIndex, stopIndex), [merged])
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, [notebookEdit])
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		return (
+			`Successfully merged cells ${startIndex}-${stopIndex - 1} into cell ${startIndex} in notebook ${notebook.uri.toString()}.\n` +
+			`Merged cell id: ${describeCellIds([notebook.cellAt(startIndex)])}\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Changes the kind and/or language of a range of cells, keeping their source and metadata
+	 *
+	 * Outputs and execution summaries are kept for cells staying code cells, and cleared for cells becoming markdown.
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
+	 * @param cellType Optional new kind of the cells, "code" or "markdown", defaults to their current kind
+	 * @param languageId Optional new language of the code cells, defaults to their current language
+	 * @returns A string indicating success or failure
+	 */
+	static async changeCellType(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+		cellType?: string,
+		languageId?: string,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		if (cellType === undefined && languageId === undefined) {
+			throw new ToolError("missing_parameter", "Missing required parameter: cell_type or language_id", "cell_type")
+		}
+		if (cellType !== undefined && cellType !== "code" && cellType !== "markdown") {
+			throw new ToolError("invalid_value", `Invalid cell_type "${cellType}", must be 'code' or 'markdown'`, "cell_type", `"code", "markdown"`)
+		}
+
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
+		const cells = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+
+		// Code cells turned from markdown take the language of the notebook's code cells
+		const defaultLanguageId =
+			languageId ||
+			notebook.getCells().find((cell) => cell.kind === vscode.NotebookCellKind.Code)?.document.languageId ||
+			"python"
+
+		const edits: vscode.NotebookEdit[] = []
+		for (const cell of cells) {
+			const kind =
+				cellType === undefined
+					? cell.kind
+					: cellType === "code"
+						? vscode.NotebookCellKind.Code
+						: vscode.NotebookCellKind.Markup
+			let cellLanguageId: string
+			if (kind === vscode.NotebookCellKind.Markup) {
+				if (languageId !== undefined && languageId !== "markdown") {
+					throw new ToolError(
+						"invalid_value",
+						`language_id must be 'markdown' for markdown cells, cell ${cell.index} is a markdown cell`,
+						"language_id",
+						`"markdown"`,
+					)
+				}
+				cellLanguageId = "markdown"
+			} else if (cell.kind === vscode.NotebookCellKind.Code) {
+				cellLanguageId = languageId || cell.document.languageId
+			} else {
+				cellLanguageId = defaultLanguageId
+			}
+			if (kind === cell.kind && cellLanguageId === cell.document.languageId) continue
+
+			const cellData = new vscode.NotebookCellData(kind, cell.document.getText(), cellLanguageId)
+			cellData.metadata = cell.metadata
+			if (kind === vscode.NotebookCellKind.Code && cell.kind === vscode.NotebookCellKind.Code) {
+				cellData.outputs = [...cell.outputs]
+				cellData.executionSummary = cell.executionSummary
+			}
+			edits.push(vscode.NotebookEdit.replaceCells(new vscode.NotebookRange(cell.index, cell.index + 1), [cellData]))
+		}
+		if (edits.length === 0) {
+			return `Cells ${startIndex}-${stopIndex - 1} already have the requested type, nothing was changed.`
+		}
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		// Each edit replaces one cell by one, so the indices of the others stay valid
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, edits)
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		const changedCells = edits.map((edit) => notebook.cellAt(edit.range.start))
+		return (
+			`Successfully changed the type of ${edits.length} cell${edits.length !== 1 ? "s" : ""} in notebook ${notebook.uri.toString()}: ` +
+			changedCells.map((cell) => `${cell.index} (${cell.kind === vscode.NotebookCellKind.Code ? `code:${cell.document.languageId}` : "markdown"})`).join(", ") +
+			`\nNotebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Gets the metadata of a cell
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param validateCellIndex A callback that receives the cell count and the notebook, validates/returns the cellIndex
+	 * @returns A string containing the cell's tags and nbformat metadata
+	 */
+	static async getCellMetadata(
+		notebookRef: string | undefined,
+		validateCellIndex: (cellCount: number, notebook: vscode.NotebookDocument) => number,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		const cell = notebook.cellAt(validateCellIndex(notebook.cellCount, notebook))
+		const tags = getCellTags(cell)
+		const cellId = getCellId(cell)
+		let result = `# Cell Metadata\n\nNotebook: ${notebook.uri.toString()}\n\n`
+		result += `Cell ${cell.index}${cellId ? ` [id: ${cellId}]` : ""}\n`
+		result += `Tags: ${tags.length > 0 ? tags.join(", ") : "(none)"}\n\n`
+		result += `\`\`\`json\n${JSON.stringify(getCellNbMetadata(cell), null, 2)}\n\`\`\``
+		return result
+	}
+
+	/**
+	 * Sets the metadata of a range of cells, their ids are kept
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
+	 * @param metadata The nbformat metadata keys to set, keys set to null are removed
+	 * @param replace Whether the metadata replaces the cells' metadata as a whole, instead of being merged into it
+	 * @returns A string indicating success or failure
+	 */
+	static async setCellMetadata(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+		metadata: Record<string, unknown>,
+		replace: boolean = false,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+			throw new ToolError("invalid_type", "metadata must be an object", "metadata")
+		}
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
+		const cells = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+		const edits = cells.map((cell) =>
+			vscode.NotebookEdit.updateCellMetadata(
+				cell.index,
+				withCellNbMetadata(cell, mergeMetadata(getCellNbMetadata(cell), metadata, replace)),
+			),
+		)
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, edits)
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		return (
+			`Successfully ${replace ? "replaced" : "updated"} the metadata of cells ${startIndex}-${stopIndex - 1} in notebook ${notebook.uri.toString()}.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Adds tags to, or removes tags from, a range of cells
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param validateIndices A callback that receives the cell count and the notebook, validates indices
+	 * @param tags The tags to add or remove
+	 * @param remove Whether to remove the tags instead of adding them
+	 * @returns A string telling the resulting tags of the cells
+	 */
+	static async updateCellTags(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		validateIndices: (
+			cellCount: number,
+			notebook: vscode.NotebookDocument,
+		) => { startIndex: number; stopIndex: number },
+		tags: string[],
+		remove: boolean = false,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		if (!Array.isArray(tags) || tags.length === 0 || tags.some((tag) => typeof tag !== "string" || tag === "")) {
+			throw new ToolError("invalid_value", "tags must be a non-empty array of non-empty strings", "tags")
+		}
+		const { startIndex, stopIndex } = validateIndices(notebook.cellCount, notebook)
+		const cells = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+
+		const edits: vscode.NotebookEdit[] = []
+		for (const cell of cells) {
+			const current = getCellTags(cell)
+			const updated = updateTagList(current, tags, remove)
+			if (updated.length !== current.length) {
+				edits.push(vscode.NotebookEdit.updateCellMetadata(cell.index, withCellTags(cell, updated)))
+			}
+		}
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		if (edits.length > 0) {
+			const workspaceEdit = new vscode.WorkspaceEdit()
+			workspaceEdit.set(notebook.uri, edits)
+
+			await vscode.workspace.applyEdit(workspaceEdit)
+		}
+
+		let result = `${remove ? "Removed" : "Added"} tags ${tags.join(", ")} ${remove ? "from" : "to"} ${edits.length} of ${cells.length} cells in notebook ${notebook.uri.toString()}`
+		result += edits.length < cells.length ? `, the others already ${remove ? "lacked" : "had"} them.\n` : `.\n`
+		result += `Tags of the cells:\n`
+		for (const cell of notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))) {
+			const cellTags = getCellTags(cell)
+			result += `- Cell ${cell.index}: ${cellTags.length > 0 ? cellTags.join(", ") : "(none)"}\n`
+		}
+		result += `Notebook version: ${NotebookVersions.token(notebook)}`
+		return result
+	}
+
+	/**
+	 * Gets the notebook-level metadata, e.g. its kernelspec and language info
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string containing the nbformat metadata of the notebook
+	 */
+	static async getNotebookMetadata(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+		const metadata = notebook.metadata?.metadata ?? {}
+		return (
+			`# Notebook Metadata\n\nNotebook: ${notebook.uri.toString()}\n\n` +
+			`\`\`\`json\n${JSON.stringify(metadata, null, 2)}\n\`\`\``
+		)
+	}
+
+	/**
+	 * Sets the notebook-level metadata
+	 *
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @param expectedVersion Optional version token the edit is based on, the edit fails when the cells changed since
+	 * @param metadata The nbformat metadata keys to set, keys set to null are removed
+	 * @param replace Whether the metadata replaces the notebook's metadata as a whole, instead of being merged into it
+	 * @returns A string indicating success or failure
+	 */
+	static async setNotebookMetadata(
+		notebookRef: string | undefined,
+		expectedVersion: string | undefined,
+		metadata: Record<string, unknown>,
+		replace: boolean = false,
+	): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
+		if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+			throw new ToolError("invalid_type", "metadata must be an object", "metadata")
+		}
+		const merged = mergeMetadata(notebook.metadata?.metadata ?? {}, metadata, replace)
+		const notebookEdit = vscode.NotebookEdit.updateNotebookMetadata({ ...notebook.metadata, metadata: merged })
+
+		NotebookVersions.check(notebook, expectedVersion)
+
+		const workspaceEdit = new vscode.WorkspaceEdit()
+		workspaceEdit.set(notebook.uri, [notebookEdit])
+
+		await vscode.workspace.applyEdit(workspaceEdit)
+
+		return (
+			`Successfully ${replace ? "replaced" : "updated"} the metadata of notebook ${notebook.uri.toString()}.\n` +
+			`Notebook version: ${NotebookVersions.token(notebook)}`
+		)
+	}
+
+	/**
+	 * Gets the state of background execution jobs
+	 *
+	 * @param jobId Optional id of the job, when omitted all known jobs of the notebook are reported
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook, ignored with a job id
+	 * @param options Options controlling how outputs are shown (default: 2000 characters per output)
+	 * @returns A string containing the job state and the results collected so far
+	 */
+	static async getExecutionStatus(
+		jobId: string | undefined,
+		notebookRef?: string,
+		options: OutputOptions = DEFAULT_OUTPUT_OPTIONS,
+	): Promise<string> {
+		if (jobId) {
+			const job = ExecutionJobs.get(jobId)
+			if (!job) {
+				throw new ToolError("not_found", `Unknown execution job: ${jobId}`, "job_id")
+			}
+			return formatExecutionJob(job, options)
+		}
+
+		const notebook = await resolveNotebook(notebookRef)
+		const jobs = ExecutionJobs.list(notebook)
+		if (jobs.length === 0) {
+			return `# Execution Jobs\n\nNotebook: ${notebook.uri.toString()}\n\nNo background execution jobs for this notebook.`
+		}
+
+		let result = `# Execution Jobs\n\nNotebook: ${notebook.uri.toString()}\n\n`
+		for (const job of jobs) {
+			const status = job.finishedAt === undefined ? "running" : job.error ? "errored" : "finished"
+			result += `- **${job.id}** (${status}): cells ${job.run.startIndex}-${job.run.stopIndex - 1}, ${summarizeExecution(job.run.records)}\n`
+		}
+		result += `\nDetails of the latest job follow.\n\n`
+		result += formatExecutionJob(jobs[jobs.length - 1], options)
+		return result
+	}
+
+	/**
+	 * Waits for a background execution job to finish
+	 *
+	 * @param jobId Id of the job
+	 * @param timeoutSeconds Maximum seconds to wait, the job keeps running when this elapses (default: 30)
+	 * @param options Options controlling how outputs are shown (default: 2000 characters per output)
+	 * @param token Optional cancellation token, cancelling stops waiting but not the job
+	 * @returns A string containing the job state and the results collected so far
+	 */
+	static async waitForExecution(
+		jobId: string,
+		timeoutSeconds: number = 30,
+		options: OutputOptions = DEFAULT_OUTPUT_OPTIONS,
+		token?: vscode.CancellationToken,
+	): Promise<string> {
+		const job = ExecutionJobs.get(jobId)
+		if (!job) {
+			throw new ToolError("not_found", `Unknown execution job: ${jobId}`, "job_id")
+		}
+
+		const finished = await ExecutionJobs.wait(job, timeoutSeconds * 1000, token)
+		let result = ""
+		if (!finished) {
+			result += `> Job ${job.id} is still running after waiting ${timeoutSeconds} seconds, wait again or check its status later.\n\n`
+		}
+		return result + formatExecutionJob(job, options)
+	}
+
+	/**
+	 * Cancels a background execution job, the kernel is interrupted when the job has cells running
+	 *
+	 * @param jobId Id of the job
+	 * @param options Options controlling how outputs are shown (default: 2000 characters per output)
+	 * @returns A string containing the job state and the results collected before the cancellation
+	 */
+	static async cancelExecution(jobId: string, options: OutputOptions = DEFAULT_OUTPUT_OPTIONS): Promise<string> {
+		const job = ExecutionJobs.get(jobId)
+		if (!job) {
+			throw new ToolError("not_found", `Unknown execution job: ${jobId}`, "job_id")
+		}
+		if (job.finishedAt !== undefined) {
+			return `> Job ${job.id} had already finished, nothing was cancelled.\n\n` + formatExecutionJob(job, options)
+		}
+
+		job.cancellation.cancel()
+		await ExecutionJobs.wait(job, CANCEL_SETTLE_MS)
+		// The job interrupts the kernel per roo-nb.interruptOnCancel, an explicit cancellation always stops the cells
+		const running = job.run.records.some((record) => record.status === "running")
+		if (!job.run.interrupted && running) {
+			await interruptNotebookKernel(job.run.notebook)
+			job.run.interrupted = true
+		}
+		return `> Job ${job.id} was cancelled.\n\n` + formatExecutionJob(job, options)
+	}
+
+	/**
+	 * Saves the target notebook to disk
+	 * 
+	 * @param notebookRef Optional path or URI of the notebook, defaults to the active notebook
+	 * @returns A string indicating success or failure
+	 */
+	static async saveNotebook(notebookRef?: string): Promise<string> {
+		const notebook = await resolveNotebook(notebookRef)
+
 		// Save the notebook using the workspace API
-		await vscode.workspace.save(notebookEditor.notebook.uri)
+		await vscode.workspace.save(notebook.uri)
 
-		return `Successfully saved notebook: ${notebookEditor.notebook.uri.toString()}`
+		return `Successfully saved notebook: ${notebook.uri.toString()}`
 	}
 }
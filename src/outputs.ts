@@ -0,0 +1,278 @@
+import * as vscode from "vscode"
+import { ImageCollector } from "./images"
+
+export const ERROR_MIME_TYPE = "application/vnd.code.notebook.error"
+export const STREAM_MIME_TYPES = ["application/vnd.code.notebook.stdout", "application/vnd.code.notebook.stderr"]
+
+/**
+ * Which part of a long text output is shown
+ *
+ * - `head`: the beginning
+ * - `tail`: the end, e.g. the final metrics of a training log
+ * - `head_tail`: the beginning and the end, with the lines in between elided
+ */
+export type TruncationStrategy = "head" | "tail" | "head_tail"
+
+export const TRUNCATION_STRATEGIES: TruncationStrategy[] = ["head", "tail", "head_tail"]
+
+/**
+ * Options controlling how cell outputs are shown
+ */
+export interface OutputOptions {
+	/** Maximum size in characters of a single output item */
+	maxOutputSize: number
+	/** Which part of long text outputs is shown, defaults to `head_tail` */
+	truncation?: TruncationStrategy
+	/** Approximate size in characters for all outputs of a tool result, shared among the cells, 0 for no limit */
+	responseBudget?: number
+	/** Collector of image outputs to return to the model, images are not shown without it */
+	images?: ImageCollector
+	/** Maximum number of traceback frames shown for errors, 0 to show all */
+	maxTracebackFrames?: number
+}
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = { maxOutputSize: 2000 }
+
+export function isTextOutput(item: vscode.NotebookCellOutputItem): boolean {
+	if (item.mime.startsWith("text/")) return true
+
+	if (item.mime === "application/vnd.code.notebook.stdout") return true
+	if (item.mime === "application/vnd.code.notebook.stderr") return true
+
+	if (item.mime === "application/json") return true
+	if (item.mime === "application/javascript") return true
+	// Language models don't take SVG images, their XML is shown instead
+	if (item.mime === "image/svg+xml") return true
+
+	return false
+}
+
+// CSI sequences (colors, cursor movement), OSC sequences (titles, hyperlinks) and other two-character escapes
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g
+
+/**
+ * Removes ANSI escape sequences, e.g. the colors of IPython tracebacks
+ */
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_PATTERN, "")
+}
+
+/**
+ * An error raised by a cell, decoded from an error output item
+ */
+export interface CellError {
+	/** Exception class name, e.g. `ZeroDivisionError` */
+	ename: string
+	/** Exception message */
+	evalue: string
+	/** Traceback lines, without ANSI escapes */
+	traceback: string[]
+}
+
+/**
+ * Decodes an error output item
+ *
+ * Kernel controllers store errors as `{ name, message, stack }`, the Jupyter extension puts the traceback in `stack`.
+ *
+ * @param item An output item with the {@link ERROR_MIME_TYPE}
+ * @returns The decoded error, or undefined when the item is not a well-formed error
+ */
+export function decodeErrorOutput(item: vscode.NotebookCellOutputItem): CellError | undefined {
+	if (item.mime !== ERROR_MIME_TYPE) return undefined
+	try {
+		const error = JSON.parse(new TextDecoder().decode(item.data))
+		const ename = stripAnsi(String(error.name ?? error.ename ?? "Error"))
+		const evalue = stripAnsi(String(error.message ?? error.evalue ?? ""))
+		const stack = Array.isArray(error.traceback) ? error.traceback.join("\n") : String(error.stack ?? "")
+		const traceback = stripAnsi(stack)
+			.split("\n")
+			.map((line) => line.trimEnd())
+		while (traceback.length > 0 && traceback[traceback.length - 1] === "") traceback.pop()
+		return { ename, evalue, traceback }
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Lists the errors raised by a cell, as found in its outputs
+ */
+export function collectCellErrors(cell: vscode.NotebookCell): CellError[] {
+	const errors: CellError[] = []
+	for (const output of cell.outputs) {
+		for (const item of output.items) {
+			const error = decodeErrorOutput(item)
+			if (error) errors.push(error)
+		}
+	}
+	return errors
+}
+
+// Lines starting a traceback frame, in IPython (`Cell In[3], line 2`, `File ~/lib.py:7, in f()`) and plain Python
+const FRAME_HEADER_PATTERN = /^(Cell In\[|Input In \[|File |<ipython-input-|\s+File ")/
+
+/**
+ * Trims the frames of a traceback, keeping the outermost frame (usually the cell's own code) and the innermost ones
+ *
+ * @param traceback The traceback lines
+ * @param maxFrames Maximum number of frames to keep, 0 to keep all
+ * @returns The trimmed traceback lines, with a marker telling how many frames were omitted
+ */
+export function trimTracebackFrames(traceback: string[], maxFrames: number): string[] {
+	if (maxFrames <= 0) return traceback
+
+	const preamble: string[] = []
+	const frames: string[][] = []
+	for (const line of traceback) {
+		if (FRAME_HEADER_PATTERN.test(line)) {
+			frames.push([line])
+		} else if (frames.length > 0) {
+			frames[frames.length - 1].push(line)
+		} else {
+			preamble.push(line)
+		}
+	}
+	if (frames.length <= maxFrames) return traceback
+
+	const head = maxFrames > 1 ? frames.slice(0, 1) : []
+	const tail = frames.slice(frames.length - (maxFrames - head.length))
+	const omitted = frames.length - head.length - tail.length
+	return [...preamble, ...head.flat(), `... ${omitted} ${omitted > 1 ? "frames" : "frame"} omitted ...`, "", ...tail.flat()]
+}
+
+/**
+ * Formats a cell error as a markdown section, with its traceback limited to the given size
+ *
+ * @param error The error
+ * @param maxOutputSize Maximum size for the traceback, its end is kept since it tells where the error was raised
+ * @param maxTracebackFrames Maximum number of traceback frames to keep, 0 to keep all
+ * @returns A string containing the error's name, value and traceback
+ */
+export function formatCellError(error: CellError, maxOutputSize: number, maxTracebackFrames: number): string {
+	let result = `- **Name**: ${error.ename}\n`
+	result += `- **Value**: ${error.evalue}\n\n`
+
+	let traceback = trimTracebackFrames(error.traceback, maxTracebackFrames).join("\n")
+	if (traceback.trim() === "") return result
+
+	if (traceback.length > maxOutputSize) {
+		result += `Traceback (truncated, full length: ${traceback.length} characters):\n\n`
+		traceback = "..." + traceback.substring(traceback.length - (maxOutputSize - 3))
+	} else {
+		result += `Traceback:\n\n`
+	}
+	result += `\`\`\`\n${traceback}\n\`\`\`\n\n`
+	return result
+}
+
+/**
+ * Gets the full text of an output item, as shown to the model
+ *
+ * @param item The output item
+ * @returns The text, or undefined for items without a textual form (e.g. images)
+ */
+export function outputItemText(item: vscode.NotebookCellOutputItem): string | undefined {
+	const error = decodeErrorOutput(item)
+	if (error) {
+		return [`${error.ename}: ${error.evalue}`, ...error.traceback].join("\n")
+	}
+	if (!isTextOutput(item)) return undefined
+
+	const text = new TextDecoder().decode(item.data)
+	// Progress bars and colored logs are full of escape codes
+	return STREAM_MIME_TYPES.includes(item.mime) ? stripAnsi(text) : text
+}
+
+/**
+ * A text truncated to a maximum size
+ */
+export interface TruncatedText {
+	/** The text shown, with a marker where the omitted part was */
+	text: string
+	/** Offset of the omitted part in the full text */
+	omittedOffset: number
+	/** Length of the omitted part */
+	omittedLength: number
+}
+
+/**
+ * Truncates a text to a maximum size
+ *
+ * @param text The full text, expected to be longer than the maximum size
+ * @param maxSize Maximum size in characters of the kept text
+ * @param strategy Which part of the text is kept
+ * @returns The truncated text, and where the omitted part is in the full text
+ */
+export function truncateText(text: string, maxSize: number, strategy: TruncationStrategy): TruncatedText {
+	const keep = Math.max(0, maxSize - 3)
+	switch (strategy) {
+		case "head":
+			return { text: text.substring(0, keep) + "...", omittedOffset: keep, omittedLength: text.length - keep }
+		case "tail":
+			return { text: "..." + text.substring(text.length - keep), omittedOffset: 0, omittedLength: text.length - keep }
+		case "head_tail": {
+			// Cut at line breaks near the halves, so the elided-lines marker stands on its own line
+			let headEnd = Math.floor(keep / 2)
+			let tailStart = text.length - (keep - headEnd)
+			const headBreak = text.lastIndexOf("\n", headEnd)
+			if (headBreak > headEnd / 2) headEnd = headBreak + 1
+			const tailBreak = text.indexOf("\n", tailStart)
+			if (tailBreak >= 0 && tailBreak < tailStart + (text.length - tailStart) / 2) tailStart = tailBreak + 1
+
+			const elided = text.substring(headEnd, tailStart)
+			const elidedLines = elided.split("\n").length - (elided.endsWith("\n") ? 1 : 0)
+			const marker = `... ${elidedLines} ${elidedLines > 1 ? "lines" : "line"} (${elided.length} characters) elided ...\n`
+			const head = text.substring(0, headEnd)
+			return {
+				text: head + (head.endsWith("\n") ? "" : "\n") + marker + text.substring(tailStart),
+				omittedOffset: headEnd,
+				omittedLength: elided.length,
+			}
+		}
+	}
+}
+
+// Outputs are never cut shorter than this per item, however tight the response budget
+const MIN_ITEM_OUTPUT_SIZE = 200
+
+/**
+ * Distributes the response budget among the outputs of cells
+ *
+ * Cells with small outputs are shown in full, the rest of the budget is shared evenly among the cells with larger ones.
+ *
+ * @param cells The cells to show
+ * @param options Options controlling how outputs are shown
+ * @returns The maximum size of an output item per cell, and whether the budget made any of them smaller
+ */
+export function outputSizeLimits(
+	cells: vscode.NotebookCell[],
+	options: OutputOptions,
+): { limits: Map<vscode.NotebookCell, number>; constrained: boolean } {
+	const { maxOutputSize, responseBudget = 0 } = options
+	const demands = cells.map((cell) => {
+		const sizes = cell.outputs.flatMap((output) =>
+			output.items.map((item) => Math.min(outputItemText(item)?.length ?? 0, maxOutputSize)),
+		)
+		const itemCount = sizes.filter((size) => size > 0).length
+		return { cell, itemCount, size: sizes.reduce((sum, size) => sum + size, 0) }
+	})
+
+	const limits = new Map(cells.map((cell) => [cell, maxOutputSize]))
+	const total = demands.reduce((sum, demand) => sum + demand.size, 0)
+	if (responseBudget <= 0 || total <= responseBudget) return { limits, constrained: false }
+
+	let remaining = responseBudget
+	const pending = demands.filter((demand) => demand.size > 0).sort((a, b) => a.size - b.size)
+	for (let i = 0; i < pending.length; i++) {
+		const { cell, itemCount, size } = pending[i]
+		const share = Math.floor(remaining / (pending.length - i))
+		if (size <= share) {
+			remaining -= size
+			continue
+		}
+		limits.set(cell, Math.min(maxOutputSize, Math.max(MIN_ITEM_OUTPUT_SIZE, Math.floor(share / itemCount))))
+		remaining -= share
+	}
+	return { limits, constrained: true }
+}
@@ -0,0 +1,320 @@
+import { ToolError } from "./validation"
+
+/**
+ * An exact search/replace edit of a cell's source
+ */
+export interface SearchReplaceBlock {
+	/** Text to find, must occur exactly once in the source */
+	search: string
+	/** Text to put in its place */
+	replace: string
+}
+
+/**
+ * A patch of a cell's source, either search/replace blocks or a unified diff
+ */
+export interface CellPatch {
+	blocks?: SearchReplaceBlock[]
+	diff?: string
+}
+
+/**
+ * Outcome of applying a patch
+ */
+export interface PatchResult {
+	source: string
+	/** Number of blocks or hunks applied */
+	applied: number
+	linesAdded: number
+	linesRemoved: number
+}
+
+function countLines(text: string): number {
+	return text === "" ? 0 : text.split("\n").length
+}
+
+function preview(text: string): string {
+	const line = text.split("\n")[0]
+	return JSON.stringify(line.length > 80 ? line.substring(0, 77) + "..." : line)
+}
+
+/**
+ * Applies search/replace blocks in order, each to the result of the previous ones
+ *
+ * @param source The source to patch
+ * @param blocks The blocks
+ * @returns The patched source
+ * @throws An error telling which block failed and why, nothing is applied then
+ */
+export function applySearchReplace(source: string, blocks: SearchReplaceBlock[]): PatchResult {
+	let patched = source
+	let linesAdded = 0
+	let linesRemoved = 0
+	blocks.forEach(({ search, replace }, i) => {
+		if (typeof search !== "string" || typeof replace !== "string") {
+			throw new ToolError("invalid_type", `Block ${i + 1}: search and replace must both be strings`, `edits[${i}]`)
+		}
+		if (search === "") {
+			throw new ToolError("invalid_value", `Block ${i + 1}: search text must not be empty`, `edits[${i}].search`)
+		}
+
+		const index = patched.indexOf(search)
+		if (index < 0) {
+			throw new ToolError(
+				"patch_mismatch",
+				`Block ${i + 1}: search text starting with ${preview(search)} was not found in the cell source` +
+					(i > 0 ? " (after applying the previous blocks)" : ""),
+				`edits[${i}].search`,
+			)
+		}
+		const count = patched.split(search).length - 1
+		if (count > 1) {
+			throw new ToolError(
+				"patch_mismatch",
+				`Block ${i + 1}: search text starting with ${preview(search)} occurs ${count} times, include more context to make it unique`,
+				`edits[${i}].search`,
+			)
+		}
+
+		patched = patched.substring(0, index) + replace + patched.substring(index + search.length)
+		linesAdded += countLines(replace)
+		linesRemoved += countLines(search)
+	})
+	return { source: patched, applied: blocks.length, linesAdded, linesRemoved }
+}
+
+interface Hunk {
+	header: string
+	oldStart: number
+	/** Number of old and new lines stated by the header */
+	oldCount: number
+	newCount: number
+	lines: string[]
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+function countHunkLines(hunk: Hunk): { old: number; new: number } {
+	return {
+		old: hunk.lines.filter((line) => !line.startsWith("+")).length,
+		new: hunk.lines.filter((line) => !line.startsWith("-")).length,
+	}
+}
+
+function isComplete(hunk: Hunk): boolean {
+	const counts = countHunkLines(hunk)
+	return counts.old === hunk.oldCount && counts.new === hunk.newCount
+}
+
+function checkComplete(hunk: Hunk, index: number) {
+	if (!isComplete(hunk)) {
+		const counts = countHunkLines(hunk)
+		throw new ToolError(
+			"invalid_value",
+			`Hunk ${index + 1} (${hunk.header}) is truncated or garbled: the header states ${hunk.oldCount} old and ` +
+				`${hunk.newCount} new lines, the hunk has ${counts.old} old and ${counts.new} new lines`,
+			"diff",
+		)
+	}
+}
+
+function parseUnifiedDiff(diff: string): Hunk[] {
+	const hunks: Hunk[] = []
+	const lines = diff.replace(/\r\n/g, "\n").split("\n")
+	// The line break ending the diff text is not an empty context line
+	if (lines[lines.length - 1] === "") lines.pop()
+
+	for (const line of lines) {
+		const header = HUNK_HEADER_PATTERN.exec(line)
+		const hunk = hunks[hunks.length - 1]
+		if (header) {
+			if (hunk) checkComplete(hunk, hunks.length - 1)
+			hunks.push({
+				header: header[0],
+				oldStart: Number(header[1]),
+				oldCount: header[2] !== undefined ? Number(header[2]) : 1,
+				newCount: header[4] !== undefined ? Number(header[4]) : 1,
+				lines: [],
+			})
+		} else if (!hunk) {
+			// File headers (---/+++, diff --git) and anything else before the first hunk
+			continue
+		} else if (line.startsWith("\\")) {
+			// "\ No newline at end of file"
+			continue
+		} else if (isComplete(hunk)) {
+			// Blank lines may separate hunks, anything else is beyond what the header states
+			if (line !== "") {
+				throw new ToolError(
+					"invalid_value",
+					`Hunk ${hunks.length} (${hunk.header}) has more lines than its header states, starting with ${preview(line)}`,
+					"diff",
+				)
+			}
+		} else if (line.startsWith(" ") || line.startsWith("-") || line.startsWith("+")) {
+			hunk.lines.push(line)
+		} else if (line === "") {
+			// Some tools strip the space of empty context lines
+			hunk.lines.push(" ")
+		} else {
+			throw new ToolError("invalid_value", `Invalid line in ${hunk.header}: ${preview(line)}`, "diff")
+		}
+	}
+	if (hunks.length === 0) {
+		throw new ToolError("invalid_value", "The diff contains no hunks (lines starting with @@ -a,b +c,d @@)", "diff")
+	}
+	checkComplete(hunks[hunks.length - 1], hunks.length - 1)
+	return hunks
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+	if (at < 0 || at + expected.length > lines.length) return false
+	return expected.every((line, i) => lines[at + i] === line)
+}
+
+/**
+ * Applies a unified diff, hunks are located at their stated line or, when the source shifted, the nearest exact match
+ *
+ * @param source The source to patch
+ * @param diff The unified diff against the source
+ * @returns The patched source
+ * @throws An error telling which hunk failed and why, nothing is applied then
+ */
+export function applyUnifiedDiff(source: string, diff: string): PatchResult {
+	const lines = source.split("\n")
+	let offset = 0
+	let linesAdded = 0
+	let linesRemoved = 0
+	const hunks = parseUnifiedDiff(diff)
+
+	hunks.forEach((hunk, i) => {
+		const oldLines = hunk.lines.filter((line) => !line.startsWith("+")).map((line) => line.substring(1))
+		const newLines = hunk.lines.filter((line) => !line.startsWith("-")).map((line) => line.substring(1))
+
+		// An empty old side inserts after the stated line
+		const base = oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1
+		const expectedAt = base + offset
+		let at = -1
+		if (matchesAt(lines, oldLines, expectedAt)) {
+			at = expectedAt
+		} else {
+			for (let distance = 1; distance <= lines.length && at < 0; distance++) {
+				if (matchesAt(lines, oldLines, expectedAt - distance)) at = expectedAt - distance
+				else if (matchesAt(lines, oldLines, expectedAt + distance)) at = expectedAt + distance
+			}
+		}
+		if (at < 0) {
+			let detail = ""
+			for (let j = 0; j < oldLines.length; j++) {
+				const actual = lines[expectedAt + j]
+				if (actual !== oldLines[j]) {
+					detail =
+						actual === undefined
+							? `: expected line ${expectedAt + j + 1} to be ${preview(oldLines[j])}, but the source has only ${lines.length} lines`
+							: `: expected line ${expectedAt + j + 1} to be ${preview(oldLines[j])}, found ${preview(actual)}`
+					break
+				}
+			}
+			throw new ToolError("patch_mismatch", `Hunk ${i + 1} (${hunk.header}) does not match the cell source${detail}`, "diff")
+		}
+
+		lines.splice(at, oldLines.length, ...newLines)
+		offset = at - base + newLines.length - oldLines.length
+		linesAdded += hunk.lines.filter((line) => line.startsWith("+")).length
+		linesRemoved += hunk.lines.filter((line) => line.startsWith("-")).length
+	})
+	return { source: lines.join("\n"), applied: hunks.length, linesAdded, linesRemoved }
+}
+
+/**
+ * Applies a patch to a cell's source
+ *
+ * @param source The source to patch
+ * @param patch The patch, with either blocks or a diff
+ * @returns The patched source
+ */
+export function applyCellPatch(source: string, patch: CellPatch): PatchResult {
+	if (patch.blocks && patch.diff !== undefined) {
+		throw new ToolError("invalid_value", "Give either search/replace edits or a diff, not both", "diff")
+	}
+	if (patch.blocks) {
+		if (patch.blocks.length === 0) {
+			throw new ToolError("invalid_value", "edits must not be empty", "edits")
+		}
+		return applySearchReplace(source, patch.blocks)
+	}
+	if (patch.diff !== undefined) {
+		return applyUnifiedDiff(source, patch.diff)
+	}
+	throw new ToolError("missing_parameter", "Missing required parameter: edits or diff", "edits")
+}
+
+// Sources whose line counts multiply beyond this are diffed as a whole replacement, sparing the LCS table
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Creates a unified diff between two sources, the counterpart of {@link applyUnifiedDiff}
+ *
+ * @param oldSource The original source
+ * @param newSource The changed source
+ * @param context Number of unchanged lines shown around changes
+ * @returns The hunks of the diff, empty when the sources are equal
+ */
+export function createUnifiedDiff(oldSource: string, newSource: string, context: number = 3): string {
+	if (oldSource === newSource) return ""
+	const a = oldSource.split("\n")
+	const b = newSource.split("\n")
+
+	// Longest common subsequence lengths of the suffixes, walked from the start to emit the edit script
+	const ops: Array<{ type: " " | "-" | "+"; line: string }> = []
+	if (a.length * b.length <= MAX_DIFF_CELLS) {
+		const width = b.length + 1
+		const lcs = new Uint32Array((a.length + 1) * width)
+		for (let i = a.length - 1; i >= 0; i--) {
+			for (let j = b.length - 1; j >= 0; j--) {
+				lcs[i * width + j] =
+					a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+			}
+		}
+		let i = 0
+		let j = 0
+		while (i < a.length || j < b.length) {
+			if (i < a.length && j < b.length && a[i] === b[j]) {
+				ops.push({ type: " ", line: a[i++] })
+				j++
+			} else if (j < b.length && (i >= a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+				ops.push({ type: "+", line: b[j++] })
+			} else {
+				ops.push({ type: "-", line: a[i++] })
+			}
+		}
+	} else {
+		ops.push(...a.map((line) => ({ type: "-" as const, line })), ...b.map((line) => ({ type: "+" as const, line })))
+	}
+
+	// Group the changes into hunks, with their context lines
+	const hunks: string[] = []
+	let index = 0
+	while (index < ops.length) {
+		const firstChange = ops.findIndex((op, k) => k >= index && op.type !== " ")
+		if (firstChange < 0) break
+		let end = firstChange
+		for (let k = firstChange; k < ops.length && k <= end + 2 * context; k++) {
+			if (ops[k].type !== " ") end = k
+		}
+		const start = Math.max(index, firstChange - context)
+		const stop = Math.min(ops.length, end + context + 1)
+
+		const before = ops.slice(0, start)
+		const oldStart = before.filter((op) => op.type !== "+").length
+		const newStart = before.filter((op) => op.type !== "-").length
+		const lines = ops.slice(start, stop)
+		const oldLength = lines.filter((op) => op.type !== "+").length
+		const newLength = lines.filter((op) => op.type !== "-").length
+		// An empty side is numbered by the line before it
+		const header = `@@ -${oldLength > 0 ? oldStart + 1 : oldStart},${oldLength} +${newLength > 0 ? newStart + 1 : newStart},${newLength} @@`
+		hunks.push([header, ...lines.map((op) => op.type + op.line)].join("\n"))
+		index = stop
+	}
+	return hunks.join("\n")
+}
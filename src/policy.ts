@@ -0,0 +1,210 @@
+import * as vscode from "vscode"
+import { hasCellTag, SKIP_EXECUTION_TAG } from "./metadata"
+import { ToolError } from "./validation"
+
+/**
+ * What happens to code an execution would run
+ *
+ * - `allow`: the code runs
+ * - `confirm`: the code runs once the user confirms it in a dialog
+ * - `noexec`: the code is not run, edits of cells are still applied as if `noexec` was set
+ * - `deny`: the call fails, edits that would run the code are not applied
+ */
+export type PolicyAction = "allow" | "confirm" | "noexec" | "deny"
+
+export const POLICY_ACTIONS: PolicyAction[] = ["allow", "confirm", "noexec", "deny"]
+
+/**
+ * A rule of the execution policy, matched against the code about to run
+ */
+export interface ExecutionRule {
+	/** Regular expression searched in the code, `^` and `$` match at line breaks */
+	pattern: string
+	action: PolicyAction
+	/** Languages the rule applies to (case-insensitive), all when omitted */
+	languages?: string[]
+	/** What the rule guards against, reported with its decisions */
+	description?: string
+}
+
+/**
+ * The execution policy, consulted before cells or code are run in the kernel
+ */
+export interface ExecutionPolicy {
+	/** Rules tried in order, the first matching rule decides */
+	rules: ExecutionRule[]
+	/** Action for code matching none of the rules but one of the built-in {@link RISKY_PATTERNS} */
+	riskyCodeAction: PolicyAction
+}
+
+/**
+ * Code patterns considered risky on a kernel host: shell access, package installs, file deletion and network access
+ */
+export const RISKY_PATTERNS: Array<Omit<ExecutionRule, "action">> = [
+	{ pattern: String.raw`^\s*!`, languages: ["python"], description: "shell escape" },
+	{ pattern: String.raw`^\s*%%(bash|sh|script|system|writefile)\b`, languages: ["python"], description: "shell cell magic" },
+	{ pattern: String.raw`^\s*%(system|sx|sc)\b`, languages: ["python"], description: "shell line magic" },
+	{ pattern: String.raw`^\s*%(pip|conda|mamba)\b`, languages: ["python"], description: "package install" },
+	{ pattern: String.raw`\b(pip3?|conda|mamba|uv)\s+install\b`, description: "package install" },
+	{ pattern: String.raw`\binstall\.packages\s*\(`, languages: ["r"], description: "package install" },
+	{ pattern: String.raw`\bPkg\.add\s*\(`, languages: ["julia"], description: "package install" },
+	{ pattern: String.raw`\b(subprocess|os\.system|os\.popen|os\.exec\w*|pty\.spawn)\b`, languages: ["python"], description: "subprocess" },
+	{ pattern: String.raw`\bsystem2?\s*\(`, languages: ["r"], description: "subprocess" },
+	{ pattern: String.raw`\b(shutil\.rmtree|os\.remove|os\.unlink|os\.rmdir|unlink\(|file\.remove\s*\()|\brm\s+-\w*[rf]`, description: "file deletion" },
+	{ pattern: String.raw`\b(requests|urllib\d?|httpx|aiohttp|socket|paramiko|ftplib|smtplib)\b`, languages: ["python"], description: "network access" },
+	{ pattern: String.raw`\b(curl|wget)\b|\bdownload\.file\s*\(|\bhttr\b`, description: "network access" },
+]
+
+/**
+ * The decision of the policy on a piece of code
+ */
+export interface PolicyDecision {
+	action: PolicyAction
+	/** The rule or risky pattern that decided, none for code matching nothing */
+	reason?: string
+}
+
+// Stricter actions win when several cells of a run are decided differently
+const ACTION_SEVERITY: Record<PolicyAction, number> = { allow: 0, confirm: 1, noexec: 2, deny: 3 }
+
+function appliesTo(rule: Omit<ExecutionRule, "action">, language: string): boolean {
+	return !rule.languages || rule.languages.some((l) => l.toLowerCase() === language.toLowerCase())
+}
+
+function compile(pattern: string, where: string): RegExp {
+	try {
+		return new RegExp(pattern, "m")
+	} catch (error) {
+		// A policy that can't be read must not let code through
+		throw new Error(`Invalid pattern in ${where}, nothing was executed: ${error instanceof Error ? error.message : error}`)
+	}
+}
+
+/**
+ * Decides whether code may run
+ *
+ * @param code The code
+ * @param language The language of the code, e.g. the cell's language id
+ * @param policy The execution policy
+ * @returns The decision, and which rule made it
+ */
+export function evaluateCode(code: string, language: string, policy: ExecutionPolicy): PolicyDecision {
+	for (const [i, rule] of policy.rules.entries()) {
+		if (!appliesTo(rule, language)) continue
+		if (!POLICY_ACTIONS.includes(rule.action)) {
+			throw new Error(`Invalid action '${rule.action}' in roo-nb.executionRules rule ${i + 1}, nothing was executed`)
+		}
+		if (compile(rule.pattern, `roo-nb.executionRules rule ${i + 1}`).test(code)) {
+			return {
+				action: rule.action,
+				reason: `rule ${i + 1}${rule.description ? ` (${rule.description})` : ""}: /${rule.pattern}/`,
+			}
+		}
+	}
+	if (policy.riskyCodeAction !== "allow") {
+		const risky = RISKY_PATTERNS.find((p) => appliesTo(p, language) && new RegExp(p.pattern, "m").test(code))
+		if (risky) {
+			return { action: policy.riskyCodeAction, reason: `risky code (${risky.description}): /${risky.pattern}/` }
+		}
+	}
+	return { action: "allow" }
+}
+
+/**
+ * The outcome of consulting the policy before a run
+ */
+export interface PolicyCheck {
+	/** Whether the run goes ahead */
+	execute: boolean
+	/** The decisions and their rules, as a markdown section, empty when no rule matched */
+	report: string
+}
+
+/**
+ * Consults the policy before running code, asking the user when a rule requires confirmation
+ *
+ * @param entries The code about to run, with a label telling where it comes from (e.g. "Cell 3") and its language
+ * @param policy The execution policy, everything runs without one
+ * @returns Whether the run goes ahead, and the report of the decisions
+ * @throws An error when a rule denies any of the code
+ */
+export async function checkExecutionPolicy(
+	entries: Array<{ label: string; code: string; language: string }>,
+	policy: ExecutionPolicy | undefined,
+): Promise<PolicyCheck> {
+	if (!policy) return { execute: true, report: "" }
+
+	const decided = entries
+		.map((entry) => ({ ...entry, ...evaluateCode(entry.code, entry.language, policy) }))
+		.filter((entry) => entry.reason !== undefined)
+	if (decided.length === 0) return { execute: true, report: "" }
+
+	const action = decided.reduce<PolicyAction>(
+		(strictest, entry) => (ACTION_SEVERITY[entry.action] > ACTION_SEVERITY[strictest] ? entry.action : strictest),
+		"allow",
+	)
+	const matches = decided.map((entry) => `- ${entry.label}: ${entry.action}, ${entry.reason}`).join("\n")
+	if (action === "deny") {
+		throw new ToolError(
+			"execution_denied",
+			`Execution denied by the execution policy (roo-nb.executionRules, roo-nb.riskyCodeAction):\n${matches}`,
+		)
+	}
+
+	let outcome: string
+	let execute = action === "allow"
+	if (action === "noexec") {
+		outcome = "Not executed, the policy forces noexec for this code."
+	} else if (action === "confirm") {
+		const choice = await vscode.window.showWarningMessage(
+			"An agent is about to run code that the execution policy flags for confirmation.",
+			{ modal: true, detail: decided.map((entry) => `${entry.label}: ${entry.reason}`).join("\n") },
+			"Run",
+		)
+		execute = choice === "Run"
+		outcome = execute ? "Executed, the user confirmed it." : "Not executed, the user declined it."
+	} else {
+		outcome = "Executed, allowed by the policy."
+	}
+	return { execute, report: `## Execution Policy\n${outcome}\n${matches}\n` }
+}
+
+/**
+ * Makes sure the policy doesn't deny any code an edit is about to run, before the edit is applied
+ *
+ * @param entries The code the execution following the edit runs, with a label telling where it comes from
+ * @param policy The execution policy, everything runs without one
+ * @throws An error when a rule denies any of the code
+ */
+export function assertExecutionNotDenied(
+	entries: Array<{ label: string; code: string; language: string }>,
+	policy: ExecutionPolicy | undefined,
+) {
+	if (!policy) return
+	const denied = entries
+		.map((entry) => ({ ...entry, ...evaluateCode(entry.code, entry.language, policy) }))
+		.filter((entry) => entry.action === "deny")
+	if (denied.length > 0) {
+		throw new ToolError(
+			"execution_denied",
+			`Execution denied by the execution policy (roo-nb.executionRules, roo-nb.riskyCodeAction), the edit was not applied:\n` +
+				denied.map((entry) => `- ${entry.label}: ${entry.reason}`).join("\n") +
+				`\nPass noexec to apply the edit without executing it.`,
+		)
+	}
+}
+
+/**
+ * Lists the code of cells an execution would run, cells it skips are left out
+ *
+ * @param cells The code cells of the execution range
+ * @param honorCellTags Whether cells tagged skip-execution are skipped
+ */
+export function executedCode(
+	cells: vscode.NotebookCell[],
+	honorCellTags: boolean = true,
+): Array<{ label: string; code: string; language: string }> {
+	return cells
+		.filter((cell) => !(honorCellTags && hasCellTag(cell, SKIP_EXECUTION_TAG)))
+		.map((cell) => ({ label: `Cell ${cell.index}`, code: cell.document.getText(), language: cell.document.languageId }))
+}
@@ -0,0 +1,252 @@
+import * as vscode from "vscode"
+import { getCellId } from "./cellIds"
+import { getCellNbMetadata, getCellTags, hasCellTag, mergeMetadata, SKIP_EXECUTION_TAG, updateTagList } from "./metadata"
+import { truncateText } from "./outputs"
+import { createUnifiedDiff } from "./patch"
+
+/**
+ * A cell definition of the edit tools, as the agent passes it
+ */
+export interface CellDefinition {
+	content: string
+	cell_type?: string
+	language_id?: string
+}
+
+/**
+ * Wraps text in a fenced code block, the fence is longer than any run of backticks in the text
+ */
+export function codeBlock(text: string, language: string = ""): string {
+	const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+	const fence = "`".repeat(longestRun + 1)
+	return `${fence}${language}\n${text}\n${fence}`
+}
+
+function clip(text: string, maxSize: number): string {
+	return maxSize > 0 && text.length > maxSize ? truncateText(text, maxSize, "head_tail").text : text
+}
+
+function cellLanguage(cell: vscode.NotebookCell): string {
+	return cell.kind === vscode.NotebookCellKind.Code ? cell.document.languageId : "markdown"
+}
+
+function describeCell(cell: vscode.NotebookCell): string {
+	const id = getCellId(cell)
+	return `Cell ${cell.index}${id ? ` [id: ${id}]` : ""} (${cellLanguage(cell)})`
+}
+
+/**
+ * Shows the sources of cells
+ *
+ * @param cells The cells
+ * @param maxSize Maximum size in characters of each source shown, 0 for no limit
+ */
+export function previewCells(cells: vscode.NotebookCell[], maxSize: number): string {
+	return cells
+		.map((cell) => `**${describeCell(cell)}**\n${codeBlock(clip(cell.document.getText(), maxSize), cellLanguage(cell))}`)
+		.join("\n\n")
+}
+
+/**
+ * Shows the code cells an execution runs, cells the execution skips are left out
+ *
+ * @param cells The cells of the execution range
+ * @param maxSize Maximum size in characters of each source shown, 0 for no limit
+ * @param honorCellTags Whether cells tagged skip-execution are skipped
+ */
+export function previewExecution(cells: vscode.NotebookCell[], maxSize: number, honorCellTags: boolean): string {
+	const executed = cells.filter(
+		(cell) =>
+			cell.kind === vscode.NotebookCellKind.Code &&
+			cell.document.getText().trim() !== "" &&
+			!(honorCellTags && hasCellTag(cell, SKIP_EXECUTION_TAG)),
+	)
+	return executed.length > 0 ? previewCells(executed, maxSize) : "No code cell of the range will run."
+}
+
+/**
+ * Shows new cells, as they are inserted
+ *
+ * @param cells The cell definitions
+ * @param position Index of the first new cell
+ * @param maxSize Maximum size in characters of each source shown, 0 for no limit
+ */
+export function previewNewCells(cells: CellDefinition[], position: number, maxSize: number): string {
+	return cells
+		.map((cell, i) => {
+			const language = cell.cell_type === "code" ? cell.language_id || "" : "markdown"
+			return `**New cell ${position + i}** (${cell.cell_type === "code" ? "code" : "markdown"})\n${codeBlock(clip(cell.content ?? "", maxSize), language)}`
+		})
+		.join("\n\n")
+}
+
+/**
+ * Shows the change of a source as a unified diff
+ *
+ * @param oldSource The current source
+ * @param newSource The source after the change
+ * @param maxSize Maximum size in characters of the diff shown, 0 for no limit
+ */
+export function previewSourceChange(oldSource: string, newSource: string, maxSize: number): string {
+	const diff = createUnifiedDiff(oldSource, newSource)
+	return diff ? codeBlock(clip(diff, maxSize), "diff") : "The source is unchanged."
+}
+
+/**
+ * Shows the replacement of cells by new ones, position by position
+ *
+ * @param oldCells The replaced cells
+ * @param newCells The definitions of the new cells
+ * @param maxSize Maximum size in characters of each diff shown, 0 for no limit
+ */
+export function previewReplacement(oldCells: vscode.NotebookCell[], newCells: CellDefinition[], maxSize: number): string {
+	const start = oldCells[0]?.index ?? 0
+	const parts: string[] = []
+	for (let i = 0; i < Math.max(oldCells.length, newCells.length); i++) {
+		const oldCell = oldCells[i]
+		const newCell = newCells[i]
+		const oldSource = oldCell?.document.getText() ?? ""
+		const newSource = newCell?.content ?? ""
+		let heading: string
+		if (!newCell) {
+			heading = `${describeCell(oldCell)}, removed`
+		} else if (!oldCell) {
+			heading = `New cell ${start + i} (${newCell.cell_type === "code" ? "code" : "markdown"})`
+		} else {
+			const newKind = newCell.cell_type === "code" ? vscode.NotebookCellKind.Code : vscode.NotebookCellKind.Markup
+			heading = describeCell(oldCell) + (newKind !== oldCell.kind ? `, becomes ${newCell.cell_type === "code" ? "code" : "markdown"}` : "")
+		}
+		parts.push(`**${heading}**\n${previewSourceChange(oldSource, newSource, maxSize)}`)
+	}
+	return parts.join("\n\n")
+}
+
+/**
+ * Joins the sources of cells into the source of their merged cell
+ */
+export function mergeCellSources(cells: vscode.NotebookCell[]): string {
+	// Markdown paragraphs need a blank line between them to stay apart
+	const separator = cells[0]?.kind === vscode.NotebookCellKind.Markup ? "\n\n" : "\n"
+	return cells.map((cell) => cell.document.getText()).join(separator)
+}
+
+/**
+ * Shows the cells a move takes and where they land
+ *
+ * @param cells The moved cells
+ * @param toIndex Position the cells move to, counted in the notebook before the move
+ */
+export function previewMove(cells: vscode.NotebookCell[], toIndex: number): string {
+	const startIndex = cells[0]?.index ?? 0
+	const newStartIndex = toIndex < startIndex ? toIndex : toIndex - cells.length
+	return cells.map((cell, i) => `- ${describeCell(cell)} moves to index ${newStartIndex + i}`).join("\n")
+}
+
+/**
+ * Shows the two cells a split produces
+ *
+ * @param cell The split cell
+ * @param line The 1-based line number starting the second part
+ * @param maxSize Maximum size in characters of each source shown, 0 for no limit
+ */
+export function previewSplit(cell: vscode.NotebookCell, line: number, maxSize: number): string {
+	const lines = cell.document.getText().split("\n")
+	const language = cellLanguage(cell)
+	return (
+		`**Cell ${cell.index}** (${language})\n${codeBlock(clip(lines.slice(0, line - 1).join("\n"), maxSize), language)}\n\n` +
+		`**New cell ${cell.index + 1}** (${language})\n${codeBlock(clip(lines.slice(line - 1).join("\n"), maxSize), language)}`
+	)
+}
+
+/**
+ * Shows the cells a merge joins and the source of the merged cell
+ *
+ * @param cells The merged cells
+ * @param maxSize Maximum size in characters of the source shown, 0 for no limit
+ */
+export function previewMerge(cells: vscode.NotebookCell[], maxSize: number): string {
+	const language = cells[0] ? cellLanguage(cells[0]) : ""
+	return (
+		cells.map((cell) => `- ${describeCell(cell)}`).join("\n") +
+		`\n\n**Merged cell ${cells[0]?.index ?? 0}** (${language})\n${codeBlock(clip(mergeCellSources(cells), maxSize), language)}`
+	)
+}
+
+/**
+ * Shows the kind and language cells take, and the outputs they lose
+ *
+ * @param cells The cells
+ * @param cellType Optional new kind of the cells, "code" or "markdown"
+ * @param languageId Optional new language of the code cells
+ */
+export function previewTypeChange(cells: vscode.NotebookCell[], cellType?: string, languageId?: string): string {
+	return cells
+		.map((cell) => {
+			const toMarkdown = cellType === "markdown" || (cellType === undefined && cell.kind === vscode.NotebookCellKind.Markup)
+			const target = toMarkdown
+				? "markdown"
+				: languageId || (cell.kind === vscode.NotebookCellKind.Code ? cell.document.languageId : "code")
+			if (target === cellLanguage(cell)) return `- ${describeCell(cell)} is unchanged`
+			const lostOutputs = toMarkdown && cell.outputs.length > 0 ? `, its ${cell.outputs.length} output${cell.outputs.length !== 1 ? "s are" : " is"} deleted` : ""
+			return `- ${describeCell(cell)} becomes ${target}${lostOutputs}`
+		})
+		.join("\n")
+}
+
+/**
+ * Shows the tags of cells before and after tags are added or removed
+ *
+ * @param cells The cells
+ * @param tags The tags to add or remove
+ * @param remove Whether the tags are removed instead of added
+ */
+export function previewTagChange(cells: vscode.NotebookCell[], tags: string[], remove: boolean = false): string {
+	const format = (list: string[]) => (list.length > 0 ? list.join(", ") : "(none)")
+	return cells
+		.map((cell) => {
+			const current = getCellTags(cell)
+			const updated = updateTagList(current, tags, remove)
+			return updated.length === current.length
+				? `- ${describeCell(cell)}: ${format(current)}, unchanged`
+				: `- ${describeCell(cell)}: ${format(current)}, then ${format(updated)}`
+		})
+		.join("\n")
+}
+
+/**
+ * Shows the change of metadata as a unified diff of its JSON
+ *
+ * @param metadata The current metadata
+ * @param changes The keys to set or, with a null value, remove
+ * @param replace Whether the changes replace the metadata as a whole
+ * @param maxSize Maximum size in characters of the diff shown, 0 for no limit
+ */
+export function previewMetadataChange(
+	metadata: Record<string, unknown>,
+	changes: Record<string, unknown>,
+	replace: boolean,
+	maxSize: number,
+): string {
+	const updated = mergeMetadata(metadata, changes, replace)
+	const diff = createUnifiedDiff(JSON.stringify(metadata, null, 2), JSON.stringify(updated, null, 2))
+	return diff ? codeBlock(clip(diff, maxSize), "diff") : "The metadata is unchanged."
+}
+
+/**
+ * Shows the change of the nbformat metadata of cells, cell by cell
+ *
+ * @param cells The cells
+ * @param changes The keys to set or, with a null value, remove
+ * @param replace Whether the changes replace the metadata as a whole
+ * @param maxSize Maximum size in characters of each diff shown, 0 for no limit
+ */
+export function previewCellMetadataChange(
+	cells: vscode.NotebookCell[],
+	changes: Record<string, unknown>,
+	replace: boolean,
+	maxSize: number,
+): string {
+	return cells
+		.map((cell) => `**${describeCell(cell)}**\n${previewMetadataChange(getCellNbMetadata(cell), changes, replace, maxSize)}`)
+		.join("\n\n")
+}
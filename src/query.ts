@@ -0,0 +1,114 @@
+import * as vscode from "vscode"
+import { findCellIndex } from "./cellIds"
+import { hasCellTag } from "./metadata"
+import { collectCellErrors } from "./outputs"
+import { StaleCells } from "./staleness"
+import { ToolError } from "./validation"
+
+/**
+ * Criteria selecting the cells shown by `get_notebook_cells`, all given criteria must match
+ */
+export interface CellQuery {
+	/** Starting index (inclusive) of the cells to consider, defaults to the first cell */
+	startIndex?: number
+	/** Stopping index (exclusive) of the cells to consider, defaults to the end of the notebook */
+	stopIndex?: number
+	/** Id of the first cell to consider, takes precedence over `startIndex` */
+	startCellId?: string
+	/** Id of the last cell to consider (inclusive), takes precedence over `stopIndex` */
+	endCellId?: string
+	/** Only cells of this kind */
+	kind?: "code" | "markdown"
+	/** Only cells of this language, e.g. `python` */
+	language?: string
+	/** Only cells whose source contains this text, case-insensitive */
+	filter?: string
+	/** Only cells whose source matches this regular expression */
+	filterRegex?: string
+	/** Only cells with this tag */
+	tag?: string
+	/** Only cells with error outputs */
+	onlyErrors?: boolean
+	/** Only cells whose source changed since they were last executed */
+	onlyStale?: boolean
+	/** Maximum number of cells to show, the rest can be fetched with a later start index */
+	maxCells?: number
+}
+
+/**
+ * Cells selected by a query
+ */
+export interface CellSelection {
+	cells: vscode.NotebookCell[]
+	/** Number of cells in the considered range not matching the criteria */
+	filteredOut: number
+	/** Start index to continue with, when more matching cells follow than `maxCells` allows */
+	nextStartIndex?: number
+}
+
+/**
+ * Selects the cells of a notebook matching a query
+ *
+ * @param notebook The notebook document
+ * @param query The selection criteria
+ * @returns The matching cells, and what was left out
+ */
+export function selectCells(notebook: vscode.NotebookDocument, query: CellQuery): CellSelection {
+	const cellCount = notebook.cellCount
+	const startIndex = query.startCellId !== undefined ? findCellIndex(notebook, query.startCellId) : (query.startIndex ?? 0)
+	const stopIndex =
+		query.endCellId !== undefined ? findCellIndex(notebook, query.endCellId) + 1 : (query.stopIndex ?? cellCount)
+	if (startIndex < 0 || (startIndex >= cellCount && cellCount > 0)) {
+		throw new ToolError(
+			"out_of_range",
+			`Start index ${startIndex} is out of bounds (0-${cellCount - 1})`,
+			query.startCellId !== undefined ? "start_cell_id" : "start_index",
+			`0-${cellCount - 1}`,
+		)
+	}
+	if (stopIndex < startIndex || stopIndex > cellCount) {
+		throw new ToolError(
+			"out_of_range",
+			`End index ${stopIndex} is invalid. Must not be less than start index ${startIndex} and not greater than ${cellCount}`,
+			query.endCellId !== undefined ? "end_cell_id" : "stop_index",
+			`${startIndex}-${cellCount}`,
+		)
+	}
+
+	let regex: RegExp | undefined
+	if (query.filterRegex !== undefined) {
+		try {
+			regex = new RegExp(query.filterRegex, "m")
+		} catch (error) {
+			throw new ToolError(
+				"invalid_value",
+				`Invalid filter_regex: ${error instanceof Error ? error.message : String(error)}`,
+				"filter_regex",
+			)
+		}
+	}
+	const filter = query.filter?.toLowerCase()
+
+	const matches = (cell: vscode.NotebookCell): boolean => {
+		const isCode = cell.kind === vscode.NotebookCellKind.Code
+		if (query.kind && (query.kind === "code") !== isCode) return false
+		if (query.language && cell.document.languageId !== query.language) return false
+		const source = cell.document.getText()
+		if (filter && !source.toLowerCase().includes(filter)) return false
+		if (regex && !regex.test(source)) return false
+		if (query.tag !== undefined && !hasCellTag(cell, query.tag)) return false
+		if (query.onlyErrors && collectCellErrors(cell).length === 0) return false
+		if (query.onlyStale && !StaleCells.isStale(cell)) return false
+		return true
+	}
+
+	const candidates = notebook.getCells(new vscode.NotebookRange(startIndex, stopIndex))
+	const matching = candidates.filter(matches)
+	const maxCells = query.maxCells && query.maxCells > 0 ? query.maxCells : Infinity
+	const cells = matching.slice(0, maxCells)
+	return {
+		cells,
+		filteredOut: candidates.length - matching.length,
+		nextStartIndex: matching.length > cells.length ? matching[cells.length].index : undefined,
+	}
+}
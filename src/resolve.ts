@@ -0,0 +1,100 @@
+import * as vscode from "vscode"
+import { ToolError } from "./validation"
+
+/**
+ * Builds the URIs a notebook reference may denote, in order of preference
+ *
+ * @param notebookRef A notebook URI, an absolute path, or a path relative to a workspace folder
+ * @returns Candidate URIs for the referenced notebook
+ */
+function notebookUriCandidates(notebookRef: string): vscode.Uri[] {
+	// Full URIs (file://, vscode-remote://, untitled:, ...), but not Windows drive letters
+	if (/^[a-zA-Z][\w+.-]+:/.test(notebookRef) && !/^[a-zA-Z]:[\\/]/.test(notebookRef)) {
+		return [vscode.Uri.parse(notebookRef)]
+	}
+
+	const workspaceFolders = vscode.workspace.workspaceFolders || []
+	const normalizedPath = notebookRef.replace(/\\/g, "/")
+	if (normalizedPath.startsWith("/") || /^[a-zA-Z]:\//.test(normalizedPath)) {
+		// Absolute paths live on the same file system as the workspace, which may be a remote one
+		const candidates = workspaceFolders.map((folder) => folder.uri.with({ path: normalizedPath }))
+		candidates.push(vscode.Uri.file(notebookRef))
+		return candidates
+	}
+
+	return workspaceFolders.map((folder) => vscode.Uri.joinPath(folder.uri, normalizedPath))
+}
+
+/**
+ * Resolves the notebook an operation targets
+ *
+ * Open notebook documents are matched by URI, absolute path, workspace relative path, or an unambiguous path suffix
+ * (e.g. just the file name). A notebook that is not open yet is opened without showing it in an editor.
+ *
+ * @param notebookRef Optional path or URI of the notebook, the active notebook editor is used when omitted
+ * @returns The resolved notebook document
+ */
+export async function resolveNotebook(notebookRef?: string): Promise<vscode.NotebookDocument> {
+	if (!notebookRef) {
+		const notebookEditor = vscode.window.activeNotebookEditor
+		if (!notebookEditor) {
+			throw new ToolError(
+				"not_found",
+				"No active notebook editor found. Specify the notebook to operate on by its path or URI.",
+				"notebook",
+			)
+		}
+		return notebookEditor.notebook
+	}
+
+	const openNotebooks = vscode.workspace.notebookDocuments
+	const candidates = notebookUriCandidates(notebookRef)
+	for (const candidate of candidates) {
+		const notebook = openNotebooks.find((nb) => nb.uri.toString() === candidate.toString())
+		if (notebook) return notebook
+	}
+
+	// Fall back to matching a path suffix against open notebooks, e.g. just the file name
+	const suffix = "/" + notebookRef.replace(/\\/g, "/").replace(/^(\.?\/)+/, "")
+	const matches = openNotebooks.filter((nb) => nb.uri.path.endsWith(suffix))
+	if (matches.length === 1) return matches[0]
+	if (matches.length > 1) {
+		throw new ToolError(
+			"invalid_value",
+			`Notebook reference '${notebookRef}' is ambiguous, it matches: ${matches.map((nb) => nb.uri.toString()).join(", ")}`,
+			"notebook",
+			matches.map((nb) => nb.uri.toString()).join(", "),
+		)
+	}
+
+	// Not open yet, open the first candidate that exists
+	for (const candidate of candidates) {
+		try {
+			await vscode.workspace.fs.stat(candidate)
+		} catch {
+			continue
+		}
+		return await vscode.workspace.openNotebookDocument(candidate)
+	}
+
+	throw new ToolError("not_found", `Notebook not found: ${notebookRef}`, "notebook")
+}
+
+/**
+ * Gets an editor for the notebook, notebook commands like cell execution only work with an editor
+ *
+ * A notebook that is not visible is shown beside the current editor without taking focus.
+ *
+ * @param notebook The notebook document
+ * @returns A notebook editor showing the notebook
+ */
+export async function ensureNotebookEditor(notebook: vscode.NotebookDocument): Promise<vscode.NotebookEditor> {
+	const visibleEditor = vscode.window.visibleNotebookEditors.find((editor) => editor.notebook === notebook)
+	if (visibleEditor) return visibleEditor
+
+	return await vscode.window.showNotebookDocument(notebook, {
+		viewColumn: vscode.ViewColumn.Beside,
+		preserveFocus: true,
+		preview: false,
+	})
+}
@@ -0,0 +1,82 @@
+import * as vscode from "vscode"
+
+/**
+ * Tracks which cells had their source changed since they were last executed
+ *
+ * Executions are observed through notebook change events. Cells that already have an execution when their notebook is
+ * opened, or when they are inserted (e.g. moved), are assumed to match their outputs at that point.
+ */
+export class StaleCells {
+	// Document version of each cell as of its last observed execution
+	private static readonly executedVersions = new WeakMap<vscode.NotebookCell, number>()
+
+	/**
+	 * Starts tracking executions of all notebooks
+	 *
+	 * @returns A disposable that stops tracking
+	 */
+	static track(): vscode.Disposable {
+		vscode.workspace.notebookDocuments.forEach(StaleCells.assumeCurrent)
+		return vscode.Disposable.from(
+			vscode.workspace.onDidOpenNotebookDocument(StaleCells.assumeCurrent),
+			vscode.workspace.onDidChangeNotebookDocument((e) => {
+				for (const change of e.contentChanges) {
+					change.addedCells.forEach(StaleCells.assumeCurrentCell)
+				}
+				for (const change of e.cellChanges) {
+					const timing = change.executionSummary?.timing
+					if (timing?.endTime !== undefined) {
+						StaleCells.executedVersions.set(change.cell, change.cell.document.version)
+					}
+				}
+			}),
+		)
+	}
+
+	private static assumeCurrent(notebook: vscode.NotebookDocument) {
+		notebook.getCells().forEach(StaleCells.assumeCurrentCell)
+	}
+
+	private static assumeCurrentCell(cell: vscode.NotebookCell) {
+		if (cell.executionSummary?.executionOrder !== undefined && !StaleCells.executedVersions.has(cell)) {
+			StaleCells.executedVersions.set(cell, cell.document.version)
+		}
+	}
+
+	/**
+	 * Tells whether a cell's source changed since its last observed execution
+	 */
+	static isStale(cell: vscode.NotebookCell): boolean {
+		const version = StaleCells.executedVersions.get(cell)
+		return version !== undefined && cell.document.version !== version
+	}
+}
+
+/**
+ * Doubts about whether the outputs of a cell correspond to its source and to the cells above it
+ *
+ * - `stale`: the source changed since the cell was last executed
+ * - `out-of-order`: a cell above was executed after this one, so this one ran on a different kernel state
+ * - `never-run`: a code cell that was not executed, it has no outputs
+ */
+export type ExecutionFlag = "stale" | "out-of-order" | "never-run"
+
+/**
+ * Gets the execution flags of a code cell, none for markdown and empty cells
+ */
+export function getExecutionFlags(cell: vscode.NotebookCell): ExecutionFlag[] {
+	if (cell.kind !== vscode.NotebookCellKind.Code || cell.document.getText().trim() === "") return []
+
+	const executionOrder = cell.executionSummary?.executionOrder
+	if (executionOrder === undefined) {
+		return cell.outputs.length === 0 ? ["never-run"] : []
+	}
+
+	const flags: ExecutionFlag[] = []
+	if (StaleCells.isStale(cell)) flags.push("stale")
+	const ranLaterAbove = cell.notebook
+		.getCells(new vscode.NotebookRange(0, cell.index))
+		.some((above) => (above.executionSummary?.executionOrder ?? 0) > executionOrder)
+	if (ranLaterAbove) flags.push("out-of-order")
+	return flags
+}
@@ -0,0 +1,73 @@
+import * as assert from "assert"
+import * as vscode from "vscode"
+import { ImageCollector, readImageSize } from "../images"
+
+function png(width: number, height: number): Buffer {
+	const data = Buffer.alloc(33)
+	Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data)
+	data.writeUInt32BE(13, 8)
+	data.write("IHDR", 12, "ascii")
+	data.writeUInt32BE(width, 16)
+	data.writeUInt32BE(height, 20)
+	return data
+}
+
+function jpeg(width: number, height: number): Buffer {
+	const frame = Buffer.from([0xff, 0xc0, 0x00, 0x0b, 0x08, 0, 0, 0, 0, 0x01, 0x01, 0x11, 0x00])
+	frame.writeUInt16BE(height, 5)
+	frame.writeUInt16BE(width, 7)
+	// Start of image, an APP0 and a DHT segment before the start of frame
+	return Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc4, 0x00, 0x02]), frame])
+}
+
+function item(data: Uint8Array, mime: string): vscode.NotebookCellOutputItem {
+	return new vscode.NotebookCellOutputItem(data, mime)
+}
+
+suite("images", () => {
+	suite("readImageSize", () => {
+		test("reads the size of PNG and JPEG images", () => {
+			assert.deepStrictEqual(readImageSize(png(640, 480), "image/png"), { width: 640, height: 480 })
+			assert.deepStrictEqual(readImageSize(jpeg(800, 600), "image/jpeg"), { width: 800, height: 600 })
+		})
+
+		test("gives up on data that isn't an image of the type", () => {
+			assert.strictEqual(readImageSize(Buffer.from("not an image"), "image/png"), undefined)
+			assert.strictEqual(readImageSize(png(1, 1), "image/jpeg"), undefined)
+		})
+	})
+
+	suite("ImageCollector", () => {
+		test("collects images within the limits", () => {
+			const collector = new ImageCollector({ maxImageBytes: 1000, maxImageDimension: 1024 })
+			assert.strictEqual(collector.add(item(png(640, 480), "image/png"), 2, 0, 0), "Image #1 with MIME: image/png, 33 bytes, 640x480 pixels (attached below)")
+			assert.match(collector.add(item(jpeg(1024, 768), "image/jpeg"), undefined, 0, 1), /^Image #2 with MIME: image\/jpeg/)
+			assert.deepStrictEqual(
+				collector.images.map((image) => [image.number, image.cellIndex, image.mime]),
+				[
+					[1, 2, "image/png"],
+					[2, undefined, "image/jpeg"],
+				],
+			)
+		})
+
+		test("omits PNG and JPEG images over the dimension limit with a note", () => {
+			const collector = new ImageCollector({ maxImageBytes: 1000, maxImageDimension: 1024 })
+			assert.match(collector.add(item(png(2048, 100), "image/png"), 0, 0, 0), /^\(Not shown\) Image of 2048x100 pixels/)
+			assert.match(collector.add(item(jpeg(100, 1500), "image/jpeg"), 0, 0, 0), /^\(Not shown\) Image of 100x1500 pixels/)
+			assert.strictEqual(collector.images.length, 0)
+		})
+
+		test("omits images over the size limit, a dimension limit of 0 disables that check", () => {
+			const collector = new ImageCollector({ maxImageBytes: 20, maxImageDimension: 0 })
+			assert.match(collector.add(item(png(5000, 5000), "image/png"), 0, 0, 0), /^\(Not shown\) Image of 33 bytes/)
+			assert.strictEqual(collector.images.length, 0)
+		})
+
+		test("decodes images kept as base64 text", () => {
+			const collector = new ImageCollector({ maxImageBytes: 1000, maxImageDimension: 1024 })
+			collector.add(item(Buffer.from(png(10, 10).toString("base64")), "image/png"), 0, 0, 0)
+			assert.deepStrictEqual(Buffer.from(collector.images[0].data), png(10, 10))
+		})
+	})
+})
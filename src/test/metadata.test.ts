@@ -0,0 +1,30 @@
+import * as assert from "assert"
+import { mergeMetadata, updateTagList } from "../metadata"
+
+suite("metadata", () => {
+	suite("mergeMetadata", () => {
+		test("sets keys and removes the ones set to null", () => {
+			assert.deepStrictEqual(mergeMetadata({ a: 1, b: 2, c: 3 }, { b: null, c: 30, d: 4 }), { a: 1, c: 30, d: 4 })
+		})
+
+		test("replaces the metadata as a whole when asked to", () => {
+			assert.deepStrictEqual(mergeMetadata({ a: 1, b: 2 }, { c: 3, d: null }, true), { c: 3 })
+		})
+
+		test("leaves the current metadata unchanged", () => {
+			const metadata = { tags: ["x"] }
+			mergeMetadata(metadata, { tags: null })
+			assert.deepStrictEqual(metadata, { tags: ["x"] })
+		})
+	})
+
+	suite("updateTagList", () => {
+		test("adds tags after the current ones, without duplicates", () => {
+			assert.deepStrictEqual(updateTagList(["a", "b"], ["b", "c", "c"]), ["a", "b", "c"])
+		})
+
+		test("removes tags", () => {
+			assert.deepStrictEqual(updateTagList(["a", "b", "c"], ["b", "d"], true), ["a", "c"])
+		})
+	})
+})
@@ -0,0 +1,35 @@
+import * as assert from "assert"
+import { stripAnsi, truncateText } from "../outputs"
+
+suite("outputs", () => {
+	suite("truncateText", () => {
+		const text = "0123456789abcdefghij"
+
+		test("keeps the head", () => {
+			assert.deepStrictEqual(truncateText(text, 10, "head"), { text: "0123456...", omittedOffset: 7, omittedLength: 13 })
+		})
+
+		test("keeps the tail", () => {
+			assert.deepStrictEqual(truncateText(text, 10, "tail"), { text: "...defghij", omittedOffset: 0, omittedLength: 13 })
+		})
+
+		test("keeps the head and tail at line breaks, marking the elided lines", () => {
+			const lines = Array.from({ length: 10 }, (_, i) => `line ${i}`).join("\n")
+			const result = truncateText(lines, 30, "head_tail")
+			assert.strictEqual(result.text, "line 0\nline 1\n... 6 lines (42 characters) elided ...\nline 8\nline 9")
+			assert.strictEqual(lines.substring(result.omittedOffset, result.omittedOffset + result.omittedLength), "line 2\nline 3\nline 4\nline 5\nline 6\nline 7\n")
+		})
+	})
+
+	suite("stripAnsi", () => {
+		test("removes colors, OSC sequences and other escapes", () => {
+			assert.strictEqual(stripAnsi("\x1b[0;31mValueError\x1b[0m: bad"), "ValueError: bad")
+			assert.strictEqual(stripAnsi("\x1b]8;;https://example.com\x07link\x1b]8;;\x07"), "link")
+			assert.strictEqual(stripAnsi("a\x1bMb"), "ab")
+		})
+
+		test("leaves plain text unchanged", () => {
+			assert.strictEqual(stripAnsi("[1, 2, 3]"), "[1, 2, 3]")
+		})
+	})
+})
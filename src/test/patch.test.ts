@@ -0,0 +1,96 @@
+import * as assert from "assert"
+import { applyCellPatch, applySearchReplace, applyUnifiedDiff, createUnifiedDiff } from "../patch"
+import { ToolError } from "../validation"
+
+function assertToolError(fn: () => unknown, code: string, field?: string) {
+	assert.throws(fn, (error: unknown) => {
+		assert.ok(error instanceof ToolError, `expected a ToolError, got ${error}`)
+		assert.strictEqual(error.code, code)
+		if (field !== undefined) assert.strictEqual(error.field, field)
+		return true
+	})
+}
+
+suite("patch", () => {
+	suite("applySearchReplace", () => {
+		test("applies blocks in order, each to the result of the previous ones", () => {
+			const result = applySearchReplace("a = 1\nb = 2\nprint(a)", [
+				{ search: "a = 1", replace: "a = 10" },
+				{ search: "a = 10\nb = 2", replace: "a = 10\nb = 20\nc = 30" },
+			])
+			assert.strictEqual(result.source, "a = 10\nb = 20\nc = 30\nprint(a)")
+			assert.strictEqual(result.applied, 2)
+			assert.strictEqual(result.linesAdded, 4)
+			assert.strictEqual(result.linesRemoved, 3)
+		})
+
+		test("rejects a search text that is missing", () => {
+			assertToolError(() => applySearchReplace("x = 1", [{ search: "y = 1", replace: "y = 2" }]), "patch_mismatch", "edits[0].search")
+		})
+
+		test("rejects a search text that occurs more than once", () => {
+			assertToolError(() => applySearchReplace("x\nx", [{ search: "x", replace: "y" }]), "patch_mismatch", "edits[0].search")
+		})
+
+		test("rejects an empty search text", () => {
+			assertToolError(() => applySearchReplace("x", [{ search: "", replace: "y" }]), "invalid_value", "edits[0].search")
+		})
+	})
+
+	suite("applyUnifiedDiff", () => {
+		const source = "import os\n\ndef main():\n    print('hi')\n\nmain()"
+
+		test("applies a hunk at its stated line", () => {
+			const diff = "@@ -3,2 +3,2 @@\n def main():\n-    print('hi')\n+    print('hello')\n"
+			const result = applyUnifiedDiff(source, diff)
+			assert.strictEqual(result.source, "import os\n\ndef main():\n    print('hello')\n\nmain()")
+			assert.strictEqual(result.linesAdded, 1)
+			assert.strictEqual(result.linesRemoved, 1)
+		})
+
+		test("finds a hunk whose stated line is off", () => {
+			const diff = "@@ -1,2 +1,2 @@\n def main():\n-    print('hi')\n+    print('hello')"
+			assert.strictEqual(applyUnifiedDiff(source, diff).source, "import os\n\ndef main():\n    print('hello')\n\nmain()")
+		})
+
+		test("skips file headers and keeps empty context lines whose space was stripped", () => {
+			const diff = "--- a/cell\n+++ b/cell\n@@ -1,3 +1,3 @@\n-import os\n+import sys\n\n def main():"
+			assert.strictEqual(applyUnifiedDiff(source, diff).source, source.replace("import os", "import sys"))
+		})
+
+		test("rejects a hunk that doesn't match the source", () => {
+			assertToolError(() => applyUnifiedDiff(source, "@@ -1 +1 @@\n-import re\n+import sys"), "patch_mismatch", "diff")
+		})
+
+		test("rejects a hunk with fewer lines than its header states", () => {
+			assertToolError(() => applyUnifiedDiff(source, "@@ -1,3 +1,3 @@\n-import os\n+import sys"), "invalid_value", "diff")
+		})
+
+		test("rejects lines beyond what the header states", () => {
+			assertToolError(() => applyUnifiedDiff(source, "@@ -1 +1 @@\n-import os\n+import sys\n+import re"), "invalid_value", "diff")
+		})
+
+		test("rejects a diff without hunks", () => {
+			assertToolError(() => applyUnifiedDiff(source, "--- a/cell\n+++ b/cell"), "invalid_value", "diff")
+		})
+	})
+
+	suite("applyCellPatch", () => {
+		test("requires edits or a diff, not both", () => {
+			assertToolError(() => applyCellPatch("x", {}), "missing_parameter", "edits")
+			assertToolError(() => applyCellPatch("x", { blocks: [{ search: "x", replace: "y" }], diff: "" }), "invalid_value")
+		})
+	})
+
+	suite("createUnifiedDiff", () => {
+		test("is empty for equal sources", () => {
+			assert.strictEqual(createUnifiedDiff("a\nb", "a\nb"), "")
+		})
+
+		test("round-trips through applyUnifiedDiff", () => {
+			const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n")
+			const after = before.replace("line 3", "line three").replace("line 15\n", "") + "\nline 20"
+			assert.strictEqual(applyUnifiedDiff(before, createUnifiedDiff(before, after)).source, after)
+		})
+	})
+})
@@ -0,0 +1,44 @@
+import * as assert from "assert"
+import { evaluateCode, ExecutionPolicy } from "../policy"
+
+suite("policy", () => {
+	suite("evaluateCode", () => {
+		test("allows code matching no rule", () => {
+			assert.deepStrictEqual(evaluateCode("df.describe()", "python", { rules: [], riskyCodeAction: "confirm" }), {
+				action: "allow",
+			})
+		})
+
+		test("lets the first matching rule decide", () => {
+			const policy: ExecutionPolicy = {
+				rules: [
+					{ pattern: "^import requests", action: "allow", description: "trusted client" },
+					{ pattern: "requests", action: "deny" },
+				],
+				riskyCodeAction: "confirm",
+			}
+			assert.deepStrictEqual(evaluateCode("import requests", "python", policy), {
+				action: "allow",
+				reason: "rule 1 (trusted client): /^import requests/",
+			})
+			assert.strictEqual(evaluateCode("x = requests.get(url)", "python", policy).action, "deny")
+		})
+
+		test("applies rules only to their languages", () => {
+			const policy: ExecutionPolicy = { rules: [{ pattern: "system", action: "deny", languages: ["R"] }], riskyCodeAction: "allow" }
+			assert.strictEqual(evaluateCode('system("ls")', "r", policy).action, "deny")
+			assert.strictEqual(evaluateCode("system = 1", "python", policy).action, "allow")
+		})
+
+		test("falls back to the risky patterns", () => {
+			const decision = evaluateCode("x = 1\n!pip install pandas", "python", { rules: [], riskyCodeAction: "noexec" })
+			assert.strictEqual(decision.action, "noexec")
+			assert.match(decision.reason ?? "", /^risky code \(shell escape\)/)
+			assert.strictEqual(evaluateCode("!ls", "python", { rules: [], riskyCodeAction: "allow" }).action, "allow")
+		})
+
+		test("refuses to decide on an invalid rule", () => {
+			assert.throws(() => evaluateCode("x", "python", { rules: [{ pattern: "(", action: "allow" }], riskyCodeAction: "allow" }), /Invalid pattern/)
+		})
+	})
+})
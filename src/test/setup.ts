@@ -0,0 +1,8 @@
+import * as path from "path"
+import Module = require("module")
+
+// The vscode module only exists in the extension host, the unit tests load the stand-in next to this file instead
+const loader = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string }
+const resolveFilename = loader._resolveFilename
+loader._resolveFilename = (request, ...rest) =>
+	request === "vscode" ? path.join(__dirname, "vscode.js") : resolveFilename.call(loader, request, ...rest)
@@ -0,0 +1,118 @@
+import * as assert from "assert"
+import { checkCellIndex, checkCellRange, InputSchema, ToolError, validateInput } from "../validation"
+
+function catchToolError(fn: () => void): ToolError {
+	try {
+		fn()
+	} catch (error) {
+		assert.ok(error instanceof ToolError, `expected a ToolError, got ${error}`)
+		return error
+	}
+	assert.fail("expected a ToolError")
+}
+
+const SCHEMA: InputSchema = {
+	type: "object",
+	properties: {
+		cell_index: { type: "integer", minimum: 0 },
+		mode: { type: "string", enum: ["run_all", "stop_on_error"] },
+		cells: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { content: { type: "string" }, cell_type: { type: "string", enum: ["code", "markdown"] } },
+				required: ["content"],
+			},
+		},
+		timeout: { anyOf: [{ type: "integer" }, { type: "string", enum: ["none"] }] },
+	},
+	required: ["cells"],
+}
+
+suite("validation", () => {
+	suite("validateInput", () => {
+		test("accepts a valid input, with optional inputs given as null", () => {
+			validateInput(SCHEMA, { cells: [{ content: "x", cell_type: "code" }], mode: null, cell_index: 0, timeout: "none" })
+		})
+
+		test("reports a missing required parameter", () => {
+			const error = catchToolError(() => validateInput(SCHEMA, { cells: [{ cell_type: "code" }] }))
+			assert.deepStrictEqual(error.details, { code: "missing_parameter", field: "cells[0].content", validRange: undefined })
+		})
+
+		test("reports a wrong type", () => {
+			const error = catchToolError(() => validateInput(SCHEMA, { cells: [], cell_index: 1.5 }))
+			assert.strictEqual(error.code, "invalid_type")
+			assert.strictEqual(error.field, "cell_index")
+		})
+
+		test("reports a value outside the enum, with the allowed values", () => {
+			const error = catchToolError(() => validateInput(SCHEMA, { cells: [{ content: "x", cell_type: "raw" }] }))
+			assert.strictEqual(error.code, "invalid_value")
+			assert.strictEqual(error.field, "cells[0].cell_type")
+			assert.strictEqual(error.validRange, '"code", "markdown"')
+		})
+
+		test("reports a number out of range", () => {
+			const error = catchToolError(() => validateInput(SCHEMA, { cells: [], cell_index: -1 }))
+			assert.deepStrictEqual(error.details, { code: "out_of_range", field: "cell_index", validRange: ">= 0" })
+		})
+
+		test("reports the first failing alternative of anyOf", () => {
+			assert.strictEqual(catchToolError(() => validateInput(SCHEMA, { cells: [], timeout: "never" })).code, "invalid_type")
+		})
+
+		test("rejects unknown parameters only when the schema forbids them", () => {
+			validateInput(SCHEMA, { cells: [], extra: 1 })
+			const error = catchToolError(() => validateInput({ ...SCHEMA, additionalProperties: false }, { cells: [], extra: 1 }))
+			assert.strictEqual(error.field, "extra")
+		})
+	})
+
+	suite("checkCellIndex", () => {
+		test("accepts indices of the notebook's cells", () => {
+			checkCellIndex(0, 3)
+			checkCellIndex(2, 3)
+		})
+
+		test("reports an index out of bounds with the valid range", () => {
+			assert.deepStrictEqual(catchToolError(() => checkCellIndex(3, 3, "cell_id")).details, {
+				code: "out_of_range",
+				field: "cell_id",
+				validRange: "0-2",
+			})
+			assert.strictEqual(catchToolError(() => checkCellIndex(0, 0)).validRange, "none")
+		})
+	})
+
+	suite("checkCellRange", () => {
+		test("accepts a non-empty range within the notebook", () => {
+			checkCellRange(0, 3, 3)
+			checkCellRange(1, 2, 3)
+		})
+
+		test("reports the start index at fault", () => {
+			assert.deepStrictEqual(catchToolError(() => checkCellRange(3, 4, 3)).details, {
+				code: "out_of_range",
+				field: "start_index",
+				validRange: "0-2",
+			})
+			assert.strictEqual(catchToolError(() => checkCellRange(0, 1, 0)).validRange, "none")
+		})
+
+		test("reports the stop index at fault", () => {
+			assert.deepStrictEqual(catchToolError(() => checkCellRange(1, 1, 3)).details, {
+				code: "out_of_range",
+				field: "stop_index",
+				validRange: "2-3",
+			})
+			assert.strictEqual(catchToolError(() => checkCellRange(0, 4, 3)).field, "stop_index")
+		})
+
+		test("names the inputs the range was given by", () => {
+			const fields = { start: "start_cell_id", stop: "end_cell_id" }
+			assert.strictEqual(catchToolError(() => checkCellRange(5, 6, 3, fields)).field, "start_cell_id")
+			assert.strictEqual(catchToolError(() => checkCellRange(1, 5, 3, fields)).field, "end_cell_id")
+		})
+	})
+})
@@ -0,0 +1,19 @@
+/**
+ * The parts of the VS Code API the unit tested modules use when loaded, outside of the extension host
+ */
+
+export enum NotebookCellKind {
+	Markup = 1,
+	Code = 2,
+}
+
+export class NotebookCellOutputItem {
+	constructor(
+		readonly data: Uint8Array,
+		readonly mime: string,
+	) {}
+
+	static text(value: string, mime: string = "text/plain"): NotebookCellOutputItem {
+		return new NotebookCellOutputItem(Buffer.from(value, "utf8"), mime)
+	}
+}
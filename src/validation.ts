@@ -0,0 +1,232 @@
+/**
+ * Kinds of tool failures, telling callers how to react without parsing messages
+ *
+ * - `missing_parameter`: a required input is missing
+ * - `invalid_type`: an input has the wrong type
+ * - `invalid_value`: an input is not one of the allowed values, or conflicts with another input
+ * - `out_of_range`: an index or number is outside the valid range
+ * - `not_found`: a notebook, cell, job or checkpoint does not exist
+ * - `already_exists`: a file to create exists already
+ * - `patch_mismatch`: an edit or hunk of a patch does not match the cell source
+ * - `version_conflict`: the notebook changed since the expected version
+ * - `execution_denied`: the execution policy refused to run the code
+ * - `kernel_unavailable`: the notebook has no started kernel, or the Jupyter extension is missing
+ * - `unsupported`: the operation is not supported for the notebook, e.g. for its kernel language
+ */
+export type ToolErrorCode =
+	| "missing_parameter"
+	| "invalid_type"
+	| "invalid_value"
+	| "out_of_range"
+	| "not_found"
+	| "already_exists"
+	| "patch_mismatch"
+	| "version_conflict"
+	| "execution_denied"
+	| "kernel_unavailable"
+	| "unsupported"
+
+/**
+ * An error of a tool call that the caller can correct, reported with its code and the input at fault
+ */
+export class ToolError extends Error {
+	/**
+	 * @param code The kind of failure
+	 * @param message What went wrong, and how to correct it
+	 * @param field The input at fault, e.g. `cells[2].cell_type`
+	 * @param validRange The values the input may take, e.g. `0-11`
+	 */
+	constructor(
+		readonly code: ToolErrorCode,
+		message: string,
+		readonly field?: string,
+		readonly validRange?: string,
+	) {
+		super(message)
+		this.name = "ToolError"
+	}
+
+	/**
+	 * Gets the machine readable details of the error
+	 */
+	get details(): { code: ToolErrorCode; field?: string; validRange?: string } {
+		return { code: this.code, field: this.field, validRange: this.validRange }
+	}
+}
+
+/**
+ * The subset of JSON Schema used by the tool input schemas of package.json
+ */
+export interface InputSchema {
+	type?: "object" | "array" | "string" | "integer" | "number" | "boolean"
+	properties?: Record<string, InputSchema>
+	required?: string[]
+	items?: InputSchema
+	enum?: unknown[]
+	minimum?: number
+	maximum?: number
+	anyOf?: InputSchema[]
+	additionalProperties?: boolean | InputSchema
+	description?: string
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null"
+	if (Array.isArray(value)) return "array"
+	if (typeof value === "number" && Number.isInteger(value)) return "integer"
+	return typeof value
+}
+
+function matchesType(value: unknown, type: NonNullable<InputSchema["type"]>): boolean {
+	const actual = typeOf(value)
+	return actual === type || (type === "number" && actual === "integer")
+}
+
+function describeRange(schema: InputSchema): string | undefined {
+	if (schema.minimum !== undefined && schema.maximum !== undefined) return `${schema.minimum}-${schema.maximum}`
+	if (schema.minimum !== undefined) return `>= ${schema.minimum}`
+	if (schema.maximum !== undefined) return `<= ${schema.maximum}`
+	return undefined
+}
+
+function childField(field: string, key: string | number): string {
+	if (typeof key === "number") return `${field}[${key}]`
+	return field ? `${field}.${key}` : key
+}
+
+/**
+ * Checks a value against a schema
+ *
+ * @param schema The schema
+ * @param value The value
+ * @param field Path of the value in the tool input, empty for the input itself
+ * @throws A {@link ToolError} describing the first violation
+ */
+export function validateInput(schema: InputSchema | undefined, value: unknown, field: string = ""): void {
+	if (!schema) return
+	const name = field || "input"
+
+	if (schema.anyOf) {
+		const errors: ToolError[] = []
+		for (const alternative of schema.anyOf) {
+			try {
+				validateInput(alternative, value, field)
+				return
+			} catch (error) {
+				if (!(error instanceof ToolError)) throw error
+				errors.push(error)
+			}
+		}
+		throw errors[0] ?? new ToolError("invalid_value", `${name} matches none of the allowed forms`, field || undefined)
+	}
+
+	if (schema.type && !matchesType(value, schema.type)) {
+		throw new ToolError(
+			"invalid_type",
+			`${name} must be ${schema.type === "integer" || schema.type === "array" || schema.type === "object" ? "an" : "a"} ${schema.type}, got ${typeOf(value)}`,
+			field || undefined,
+		)
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		const allowed = schema.enum.map((option) => JSON.stringify(option)).join(", ")
+		throw new ToolError(
+			"invalid_value",
+			`${name} must be one of ${allowed}, got ${JSON.stringify(value)}`,
+			field || undefined,
+			allowed,
+		)
+	}
+
+	if (typeof value === "number") {
+		if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+			throw new ToolError(
+				"out_of_range",
+				`${name} ${value} is out of range (${describeRange(schema)})`,
+				field || undefined,
+				describeRange(schema),
+			)
+		}
+	}
+
+	if (Array.isArray(value) && schema.items) {
+		value.forEach((item, i) => validateInput(schema.items, item, childField(field, i)))
+	}
+
+	if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+		const object = value as Record<string, unknown>
+		for (const key of schema.required ?? []) {
+			if (object[key] === undefined) {
+				throw new ToolError("missing_parameter", `Missing required parameter: ${childField(field, key)}`, childField(field, key))
+			}
+		}
+		for (const [key, item] of Object.entries(object)) {
+			// Explicit nulls of optional inputs are taken as omitted
+			if (item === undefined || (item === null && !schema.required?.includes(key))) continue
+			const propertySchema = schema.properties?.[key]
+			if (propertySchema) {
+				validateInput(propertySchema, item, childField(field, key))
+			} else if (schema.additionalProperties === false) {
+				throw new ToolError("invalid_value", `Unknown parameter: ${childField(field, key)}`, childField(field, key))
+			} else if (typeof schema.additionalProperties === "object") {
+				validateInput(schema.additionalProperties, item, childField(field, key))
+			}
+		}
+	}
+}
+
+/**
+ * Checks that a cell index designates a cell of the notebook
+ *
+ * @param index The cell index
+ * @param cellCount The number of cells of the notebook
+ * @param field The input giving the index
+ * @throws A {@link ToolError} with the valid range when the index is out of bounds
+ */
+export function checkCellIndex(index: number, cellCount: number, field: string = "cell_index"): void {
+	if (index < 0 || index >= cellCount) {
+		throw new ToolError(
+			"out_of_range",
+			cellCount === 0
+				? `Cell index ${index} is out of bounds, the notebook has no cells`
+				: `Cell index ${index} is out of bounds (0-${cellCount - 1})`,
+			field,
+			cellCount === 0 ? "none" : `0-${cellCount - 1}`,
+		)
+	}
+}
+
+/**
+ * Checks that a half-open range `[startIndex, stopIndex)` designates at least one cell of the notebook
+ *
+ * @param startIndex The starting index (inclusive)
+ * @param stopIndex The stopping index (exclusive)
+ * @param cellCount The number of cells of the notebook
+ * @param fields The inputs giving the bounds, e.g. `start_cell_id` when the range was given by cell ids
+ * @throws A {@link ToolError} with the valid range of the index at fault
+ */
+export function checkCellRange(
+	startIndex: number,
+	stopIndex: number,
+	cellCount: number,
+	fields: { start: string; stop: string } = { start: "start_index", stop: "stop_index" },
+): void {
+	if (startIndex < 0 || startIndex >= cellCount) {
+		throw new ToolError(
+			"out_of_range",
+			cellCount === 0
+				? `Start index ${startIndex} is out of bounds, the notebook has no cells`
+				: `Start index ${startIndex} is out of bounds (0-${cellCount - 1})`,
+			fields.start,
+			cellCount === 0 ? "none" : `0-${cellCount - 1}`,
+		)
+	}
+	if (stopIndex <= startIndex || stopIndex > cellCount) {
+		throw new ToolError(
+			"out_of_range",
+			`End index ${stopIndex} is invalid. Must be greater than start index ${startIndex} and not greater than ${cellCount}`,
+			fields.stop,
+			`${startIndex + 1}-${cellCount}`,
+		)
+	}
+}
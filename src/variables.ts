@@ -0,0 +1,167 @@
+import * as vscode from "vscode"
+
+/**
+ * A live variable of a kernel
+ */
+export interface KernelVariable {
+	name: string
+	/** Type name, as the kernel's language spells it */
+	type: string
+	/** Dimensions of arrays and data frames, e.g. "100 x 4" */
+	shape?: string
+	/** Length of collections and vectors */
+	length?: number
+	/** Start of the variable's printed representation */
+	preview?: string
+}
+
+/**
+ * Lists the variables of kernels of one language, by code run in the kernel
+ *
+ * Providers for other languages than the built-in Python and R can be registered through the extension's API.
+ */
+export interface VariableProvider {
+	/** Kernel languages handled, as reported in `kernelspec.language` (case-insensitive) */
+	readonly languages: string[]
+	/**
+	 * Builds the code listing the variables
+	 *
+	 * The code must print a line starting with {@link VARIABLES_MARKER} followed by a JSON array of
+	 * {@link KernelVariable}, and should leave no trace in the kernel's namespace.
+	 *
+	 * @param maxPreviewLength Maximum length of the previews
+	 */
+	buildCode(maxPreviewLength: number): string
+}
+
+/** Marks the line of the introspection output holding the variables */
+export const VARIABLES_MARKER = "__ROO_NB_VARIABLES__"
+
+const pythonProvider: VariableProvider = {
+	languages: ["python"],
+	buildCode: (maxPreviewLength) => String.raw`
+def _roo_nb_variables():
+    import json, reprlib, types
+    hidden = {"In", "Out", "exit", "quit", "get_ipython"}
+    skipped = (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, type)
+    preview = reprlib.Repr()
+    preview.maxstring = preview.maxother = ${maxPreviewLength}
+    variables = []
+    for name, value in list(globals().items()):
+        if name.startswith("_") or name in hidden or isinstance(value, skipped):
+            continue
+        kind = type(value)
+        variable = {"name": name, "type": kind.__qualname__ if kind.__module__ == "builtins" else kind.__module__ + "." + kind.__qualname__}
+        shape = getattr(value, "shape", None)
+        if isinstance(shape, tuple):
+            variable["shape"] = " x ".join(str(size) for size in shape)
+        else:
+            try:
+                variable["length"] = len(value)
+            except Exception:
+                pass
+        try:
+            variable["preview"] = preview.repr(value)[:${maxPreviewLength}]
+        except Exception as error:
+            variable["preview"] = "<repr failed: %s>" % type(error).__name__
+        variables.append(variable)
+    print("${VARIABLES_MARKER}" + json.dumps(variables))
+_roo_nb_variables()
+del _roo_nb_variables
+`,
+}
+
+const rProvider: VariableProvider = {
+	languages: ["r"],
+	buildCode: (maxPreviewLength) => String.raw`
+local({
+  quote <- function(text) {
+    text <- gsub("[[:cntrl:]]", " ", text)
+    text <- gsub("\\", "\\\\", text, fixed = TRUE)
+    paste0("\"", gsub("\"", "\\\"", text, fixed = TRUE), "\"")
+  }
+  entries <- character(0)
+  for (name in ls(envir = globalenv())) {
+    value <- get(name, envir = globalenv())
+    if (is.function(value)) next
+    fields <- c(paste0("\"name\":", quote(name)), paste0("\"type\":", quote(class(value)[1])))
+    dims <- dim(value)
+    if (!is.null(dims)) {
+      fields <- c(fields, paste0("\"shape\":", quote(paste(dims, collapse = " x "))))
+    } else {
+      fields <- c(fields, paste0("\"length\":", length(value)))
+    }
+    preview <- tryCatch(
+      paste(utils::capture.output(utils::str(value, max.level = 1, vec.len = 3, give.attr = FALSE)), collapse = " "),
+      error = function(e) "<str failed>"
+    )
+    fields <- c(fields, paste0("\"preview\":", quote(substr(preview, 1, ${maxPreviewLength}))))
+    entries <- c(entries, paste0("{", paste(fields, collapse = ","), "}"))
+  }
+  cat("${VARIABLES_MARKER}[", paste(entries, collapse = ","), "]\n", sep = "")
+})
+`,
+}
+
+/**
+ * Registry of the variable providers, by kernel language
+ */
+export class VariableProviders {
+	private static readonly providers = new Map<string, VariableProvider>([
+		...pythonProvider.languages.map((language) => [language, pythonProvider] as const),
+		...rProvider.languages.map((language) => [language, rProvider] as const),
+	])
+
+	/**
+	 * Registers a provider, replacing the one registered for the same languages
+	 *
+	 * @param provider The provider
+	 * @returns A disposable that unregisters the provider
+	 */
+	static register(provider: VariableProvider): vscode.Disposable {
+		const languages = provider.languages.map((language) => language.toLowerCase())
+		for (const language of languages) {
+			VariableProviders.providers.set(language, provider)
+		}
+		return new vscode.Disposable(() => {
+			for (const language of languages) {
+				if (VariableProviders.providers.get(language) === provider) {
+					VariableProviders.providers.delete(language)
+				}
+			}
+		})
+	}
+
+	/**
+	 * Gets the provider for a kernel language
+	 */
+	static get(language: string): VariableProvider | undefined {
+		return VariableProviders.providers.get(language.toLowerCase())
+	}
+
+	/**
+	 * Lists the languages providers are registered for
+	 */
+	static languages(): string[] {
+		return [...VariableProviders.providers.keys()]
+	}
+}
+
+/**
+ * Parses the variables printed by a provider's code
+ *
+ * @param text The text output of the code
+ * @returns The variables
+ * @throws An error when the output has no variables line, e.g. because the code failed
+ */
+export function parseVariables(text: string): KernelVariable[] {
+	const line = text.split("\n").find((l) => l.startsWith(VARIABLES_MARKER))
+	if (line === undefined) {
+		throw new Error(`The kernel did not list its variables, it printed: ${text.trim().substring(0, 500) || "nothing"}`)
+	}
+	const variables = JSON.parse(line.substring(VARIABLES_MARKER.length))
+	if (!Array.isArray(variables)) {
+		throw new Error("The kernel listed its variables in an unexpected format")
+	}
+	return variables.filter((variable) => typeof variable?.name === "string" && typeof variable?.type === "string")
+}
@@ -0,0 +1,121 @@
+import * as crypto from "crypto"
+import * as vscode from "vscode"
+import { getCellId } from "./cellIds"
+import { ToolError } from "./validation"
+
+// Version tokens handed out per notebook, whose snapshots are kept to report what changed since
+const MAX_SNAPSHOTS_PER_NOTEBOOK = 20
+
+/**
+ * The cells of a notebook as of a version token
+ */
+interface NotebookSnapshot {
+	cells: Array<{ cell: vscode.NotebookCell; id?: string; version: number }>
+}
+
+/**
+ * Hashes the cell structure and sources of a notebook, outputs and metadata are left out
+ */
+function hashCells(notebook: vscode.NotebookDocument): string {
+	const hash = crypto.createHash("sha1")
+	for (const cell of notebook.getCells()) {
+		hash.update(`${cell.document.uri.toString()}@${cell.document.version}\n`)
+	}
+	return hash.digest("hex").substring(0, 12)
+}
+
+function describeCell(index: number, id: string | undefined): string {
+	return id ? `${index} (id: ${id})` : `${index}`
+}
+
+/**
+ * Version tokens of notebooks, guarding edits against concurrent changes
+ *
+ * A token is made of the notebook document version and a hash of its cells' document versions. Edits are checked
+ * against the cells' part, so executions updating outputs don't invalidate tokens, while edited, inserted, deleted or
+ * reordered cells do.
+ */
+export class NotebookVersions {
+	private static readonly snapshots = new Map<string, Map<string, NotebookSnapshot>>()
+
+	/**
+	 * Gets the current version token of a notebook
+	 */
+	static token(notebook: vscode.NotebookDocument): string {
+		const token = `${notebook.version}-${hashCells(notebook)}`
+
+		const key = notebook.uri.toString()
+		const snapshots = NotebookVersions.snapshots.get(key) || new Map<string, NotebookSnapshot>()
+		snapshots.delete(token)
+		snapshots.set(token, {
+			cells: notebook.getCells().map((cell) => ({ cell, id: getCellId(cell), version: cell.document.version })),
+		})
+		while (snapshots.size > MAX_SNAPSHOTS_PER_NOTEBOOK) {
+			snapshots.delete(snapshots.keys().next().value!)
+		}
+		NotebookVersions.snapshots.set(key, snapshots)
+		return token
+	}
+
+	/**
+	 * Checks that the cells of a notebook did not change since a version token was handed out
+	 *
+	 * @param notebook The notebook document
+	 * @param expectedVersion The version token the caller based its edit on, nothing is checked when omitted
+	 * @throws An error reporting which cells changed, when they did
+	 */
+	static check(notebook: vscode.NotebookDocument, expectedVersion: string | undefined) {
+		if (expectedVersion === undefined) return
+
+		const [, expectedHash] = expectedVersion.split("-")
+		if (expectedHash === hashCells(notebook)) return
+
+		const current = NotebookVersions.token(notebook)
+		const snapshot = NotebookVersions.snapshots.get(notebook.uri.toString())?.get(expectedVersion)
+		let message = `Version conflict: notebook ${notebook.uri.toString()} changed since version ${expectedVersion}, the edit was not applied.`
+		if (!snapshot) {
+			message += ` The version is unknown or expired.`
+		} else {
+			const changes = NotebookVersions.describeChanges(notebook, snapshot)
+			if (changes.length > 0) {
+				message += `\n\nChanges since then:\n${changes.map((change) => `- ${change}`).join("\n")}`
+			}
+		}
+		message += `\n\nThe current version is ${current}. Re-read the affected cells and retry with the current version.`
+		throw new ToolError("version_conflict", message, "expected_version", current)
+	}
+
+	private static describeChanges(notebook: vscode.NotebookDocument, snapshot: NotebookSnapshot): string[] {
+		const cells = notebook.getCells()
+		const previous = new Map(snapshot.cells.map((entry, index) => [entry.cell, { ...entry, index }]))
+		const changes: string[] = []
+
+		const edited = cells.filter((cell) => {
+			const entry = previous.get(cell)
+			return entry && entry.version !== cell.document.version
+		})
+		if (edited.length > 0) {
+			changes.push(`Edited cells: ${edited.map((cell) => describeCell(cell.index, getCellId(cell))).join(", ")}`)
+		}
+
+		const inserted = cells.filter((cell) => !previous.has(cell))
+		if (inserted.length > 0) {
+			changes.push(`Inserted cells: ${inserted.map((cell) => describeCell(cell.index, getCellId(cell))).join(", ")}`)
+		}
+
+		const remaining = new Set(cells)
+		const deleted = [...previous.values()].filter((entry) => !remaining.has(entry.cell))
+		if (deleted.length > 0) {
+			changes.push(
+				`Deleted cells (former indices): ${deleted.map((entry) => describeCell(entry.index, entry.id)).join(", ")}`,
+			)
+		}
+
+		// Cells kept by both versions must keep their relative order
+		const keptOrder = cells.filter((cell) => previous.has(cell)).map((cell) => previous.get(cell)!.index)
+		if (keptOrder.some((index, i) => i > 0 && index < keptOrder[i - 1])) {
+			changes.push(`Cells were reordered`)
+		}
+		return changes
+	}
+}